@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."RecipeVersion" ADD COLUMN     "reviewStatus" TEXT,
+ADD COLUMN     "reviewedAt" TIMESTAMP(3),
+ADD COLUMN     "reviewedBy" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "public"."RecipeVersion" ADD CONSTRAINT "RecipeVersion_reviewedBy_fkey" FOREIGN KEY ("reviewedBy") REFERENCES "public"."user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
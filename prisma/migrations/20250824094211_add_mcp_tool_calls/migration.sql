@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "public"."McpToolCall" (
+    "id" TEXT NOT NULL,
+    "tool" TEXT NOT NULL,
+    "args" JSONB NOT NULL,
+    "resultShortIds" TEXT[],
+    "resultCount" INTEGER NOT NULL,
+    "latencyMs" INTEGER NOT NULL,
+    "projects" TEXT[],
+    "apiKeyId" TEXT,
+    "clientName" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "McpToolCall_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "McpToolCall_tool_createdAt_idx" ON "public"."McpToolCall"("tool", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."McpToolCall" ADD CONSTRAINT "McpToolCall_apiKeyId_fkey" FOREIGN KEY ("apiKeyId") REFERENCES "public"."ApiKey"("id") ON DELETE SET NULL ON UPDATE CASCADE;
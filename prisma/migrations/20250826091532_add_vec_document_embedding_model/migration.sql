@@ -0,0 +1,16 @@
+-- DropIndex
+-- The ivfflat index needs a fixed number of dimensions, which differs between embedding models
+DROP INDEX IF EXISTS "public"."VecDocument_embedding_idx";
+
+-- AlterTable
+ALTER TABLE "public"."VecDocument" ALTER COLUMN "embedding" TYPE vector,
+ADD COLUMN     "dimensions" INTEGER,
+ADD COLUMN     "embeddingModel" TEXT;
+
+-- Existing embeddings were all produced by the previously hard-coded OpenAI model
+UPDATE "public"."VecDocument"
+SET "embeddingModel" = 'openai:text-embedding-3-small', "dimensions" = vector_dims(embedding)
+WHERE embedding IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "VecDocument_embeddingModel_idx" ON "public"."VecDocument"("embeddingModel");
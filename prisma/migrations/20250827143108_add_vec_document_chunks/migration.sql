@@ -0,0 +1,15 @@
+-- DropIndex
+-- Recipes are stored as several chunks per version, so the shortId repeats
+ALTER TABLE "public"."VecDocument" DROP CONSTRAINT IF EXISTS "VecDocument_shortid_key";
+DROP INDEX IF EXISTS "public"."VecDocument_shortid_key";
+
+-- AlterTable
+ALTER TABLE "public"."VecDocument" ADD COLUMN     "chunkIndex" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "content" TEXT,
+ADD COLUMN     "heading" TEXT;
+
+-- CreateIndex
+CREATE INDEX "VecDocument_shortid_idx" ON "public"."VecDocument"("shortid");
+
+-- CreateIndex
+CREATE INDEX "VecDocument_versionId_idx" ON "public"."VecDocument"("versionId");
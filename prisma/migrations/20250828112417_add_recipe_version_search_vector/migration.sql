@@ -0,0 +1,9 @@
+-- AlterTable
+-- Titles weigh more than content when ranking full-text matches
+ALTER TABLE "public"."RecipeVersion" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("content", '')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "RecipeVersion_searchVector_idx" ON "public"."RecipeVersion" USING GIN ("searchVector");
@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "public"."SearchQuery" (
+    "id" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "filters" JSONB,
+    "resultShortIds" TEXT[],
+    "resultCount" INTEGER NOT NULL,
+    "topSimilarity" DOUBLE PRECISION,
+    "latencyMs" INTEGER NOT NULL,
+    "userId" TEXT,
+    "apiKeyId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SearchQuery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."SearchClick" (
+    "id" TEXT NOT NULL,
+    "searchQueryId" TEXT NOT NULL,
+    "shortId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SearchClick_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SearchQuery_createdAt_idx" ON "public"."SearchQuery"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "SearchClick_searchQueryId_idx" ON "public"."SearchClick"("searchQueryId");
+
+-- AddForeignKey
+ALTER TABLE "public"."SearchQuery" ADD CONSTRAINT "SearchQuery_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."SearchQuery" ADD CONSTRAINT "SearchQuery_apiKeyId_fkey" FOREIGN KEY ("apiKeyId") REFERENCES "public"."ApiKey"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."SearchClick" ADD CONSTRAINT "SearchClick_searchQueryId_fkey" FOREIGN KEY ("searchQueryId") REFERENCES "public"."SearchQuery"("id") ON DELETE CASCADE ON UPDATE CASCADE;
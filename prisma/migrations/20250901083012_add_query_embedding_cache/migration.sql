@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "public"."QueryEmbedding" (
+    "id" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "embeddingModel" TEXT NOT NULL,
+    "embedding" DOUBLE PRECISION[],
+    "hits" INTEGER NOT NULL DEFAULT 0,
+    "misses" INTEGER NOT NULL DEFAULT 1,
+    "embeddedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastUsedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QueryEmbedding_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QueryEmbedding_embeddingModel_query_key" ON "public"."QueryEmbedding"("embeddingModel", "query");
@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "public"."SavedSearch" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "filters" JSONB NOT NULL,
+    "notify" BOOLEAN NOT NULL DEFAULT false,
+    "notifyThreshold" DOUBLE PRECISION NOT NULL DEFAULT 0.5,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SavedSearch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."Notification" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT,
+    "recipeId" TEXT,
+    "versionId" TEXT,
+    "savedSearchId" TEXT,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Notification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SavedSearch_userId_idx" ON "public"."SavedSearch"("userId");
+
+-- CreateIndex
+CREATE INDEX "Notification_userId_readAt_idx" ON "public"."Notification"("userId", "readAt");
+
+-- CreateIndex
+CREATE INDEX "Notification_savedSearchId_versionId_idx" ON "public"."Notification"("savedSearchId", "versionId");
+
+-- AddForeignKey
+ALTER TABLE "public"."SavedSearch" ADD CONSTRAINT "SavedSearch_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Notification" ADD CONSTRAINT "Notification_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Notification" ADD CONSTRAINT "Notification_savedSearchId_fkey" FOREIGN KEY ("savedSearchId") REFERENCES "public"."SavedSearch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "public"."RecipeQueue" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lockedUntil" TIMESTAMP(3),
+ADD COLUMN     "runAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Failed items were never retried automatically, they move to the dead-letter state
+UPDATE "public"."RecipeQueue" SET "status" = 'dead' WHERE "status" = 'failed';
+
+-- CreateIndex
+CREATE INDEX "RecipeQueue_status_runAfter_idx" ON "public"."RecipeQueue"("status", "runAfter");
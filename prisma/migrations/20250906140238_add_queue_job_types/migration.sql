@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "public"."RecipeQueue" ADD COLUMN     "payload" JSONB,
+ADD COLUMN     "type" TEXT NOT NULL DEFAULT 'process-recipe',
+ALTER COLUMN "shortid" DROP NOT NULL,
+ALTER COLUMN "versionId" DROP NOT NULL;
+
+-- Existing items are recipe processing jobs
+UPDATE "public"."RecipeQueue" SET "payload" = jsonb_build_object('versionId', "versionId");
+
+-- CreateIndex
+CREATE INDEX "RecipeQueue_type_status_idx" ON "public"."RecipeQueue"("type", "status");
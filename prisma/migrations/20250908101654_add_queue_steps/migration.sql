@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "public"."QueueStep" (
+    "id" TEXT NOT NULL,
+    "queueItemId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "QueueStep_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QueueStep_queueItemId_name_key" ON "public"."QueueStep"("queueItemId", "name");
+
+-- AddForeignKey
+ALTER TABLE "public"."QueueStep" ADD CONSTRAINT "QueueStep_queueItemId_fkey" FOREIGN KEY ("queueItemId") REFERENCES "public"."RecipeQueue"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "public"."QueueWorker" (
+    "id" TEXT NOT NULL,
+    "hostname" TEXT NOT NULL,
+    "pid" INTEGER NOT NULL,
+    "concurrency" INTEGER NOT NULL,
+    "activeItems" INTEGER NOT NULL DEFAULT 0,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QueueWorker_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."QueueControl" (
+    "id" TEXT NOT NULL DEFAULT 'queue',
+    "paused" BOOLEAN NOT NULL DEFAULT false,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "QueueControl_pkey" PRIMARY KEY ("id")
+);
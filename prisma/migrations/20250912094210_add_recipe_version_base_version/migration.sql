@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."RecipeVersion" ADD COLUMN     "baseVersionId" TEXT;
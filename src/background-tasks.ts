@@ -12,19 +12,20 @@ async function main() {
   // Initialize settings cache
   await Settings.loadSettings();
 
-  queueProcessor.start();
+  await queueProcessor.start();
 }
 
 // Graceful shutdown handling
-process.on("SIGINT", () => {
+process.on("SIGINT", async () => {
   console.log("Received SIGINT, shutting down background tasks...");
-  queueProcessor.stop();
+  // Items in progress are finished first, so they do not wait for their lease to expire
+  await queueProcessor.stop();
   process.exit(0);
 });
 
-process.on("SIGTERM", () => {
+process.on("SIGTERM", async () => {
   console.log("Received SIGTERM, shutting down background tasks...");
-  queueProcessor.stop();
+  await queueProcessor.stop();
   process.exit(0);
 });
 
@@ -13,7 +13,7 @@ type VersionWithRelations = RecipeVersion & {
 interface DiffViewProps {
   version1: VersionWithRelations;
   version2: VersionWithRelations;
-  onRestore: (version: VersionWithRelations) => void;
+  onRestore?: (version: VersionWithRelations) => void;
 }
 
 export function DiffView({ version1, version2, onRestore }: DiffViewProps) {
@@ -47,12 +47,12 @@ export function DiffView({ version1, version2, onRestore }: DiffViewProps) {
                 </>
               )}
             </Button>
-            {!version1.isCurrent && (
+            {onRestore && !version1.isCurrent && (
               <Button variant="outline" size="sm" onClick={() => onRestore(version1)}>
                 Restore {version1.versionId}
               </Button>
             )}
-            {!version2.isCurrent && (
+            {onRestore && !version2.isCurrent && (
               <Button variant="outline" size="sm" onClick={() => onRestore(version2)}>
                 Restore {version2.versionId}
               </Button>
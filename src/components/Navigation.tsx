@@ -1,7 +1,19 @@
 import { Link } from "@tanstack/react-router";
 import { useAtom } from "jotai";
-import { Activity, BookOpen, FolderOpen, HelpCircle, Search, Settings, Tags, Users2 } from "lucide-react";
+import {
+  Activity,
+  BarChart3,
+  BookOpen,
+  ClipboardCheck,
+  FolderOpen,
+  HelpCircle,
+  Search,
+  Settings,
+  Tags,
+  Users2,
+} from "lucide-react";
 import { isWideLayoutAtom } from "~/lib/atoms/ui";
+import { NotificationBell } from "./NotificationBell";
 import { UserAvatar } from "./UserAvatar";
 import { Button } from "./ui/button";
 
@@ -14,6 +26,8 @@ export function Navigation() {
     { href: "/projects", label: "Projects", icon: FolderOpen },
     { href: "/tags", label: "Tags", icon: Tags },
     { href: "/users", label: "Users", icon: Users2 },
+    { href: "/reviews", label: "Reviews", icon: ClipboardCheck },
+    { href: "/usage", label: "Usage", icon: BarChart3 },
     { href: "/queue", label: "Queue", icon: Activity },
     { href: "/settings", label: "Settings", icon: Settings },
     { href: "/help", label: "Help", icon: HelpCircle },
@@ -48,6 +62,7 @@ export function Navigation() {
 
           {/* Right side - User Avatar and Mobile Menu */}
           <div className="flex items-center space-x-2">
+            <NotificationBell />
             <UserAvatar />
 
             {/* Mobile Menu Button */}
@@ -0,0 +1,132 @@
+import { useNavigate } from "@tanstack/react-router";
+import { createServerFn } from "@tanstack/react-start";
+import { Bell } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { useSession } from "~/lib/auth-client";
+import { authMiddlewareEnsure } from "~/lib/auth-middleware";
+import { Notifications } from "~/lib/data/notifications";
+import { notificationIdSchema } from "~/lib/dataValidators";
+import { formatDateTime } from "~/lib/dateUtils";
+import { Button } from "./ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+
+// New notifications are created by the queue processor, so the bell checks for them periodically
+const POLL_INTERVAL_MS = 60 * 1000;
+
+const getNotifications = createServerFn({ method: "GET" })
+  .middleware([authMiddlewareEnsure])
+  .handler(async (ctx) => {
+    const [unread, notifications] = await Promise.all([
+      Notifications.countUnread(ctx.context.user.id),
+      Notifications.listByUser(ctx.context.user.id, 10),
+    ]);
+    return { unread, notifications };
+  });
+
+const markNotificationRead = createServerFn({ method: "POST" })
+  .middleware([authMiddlewareEnsure])
+  .validator((data: unknown) => notificationIdSchema.parse(data))
+  .handler(async (ctx) => {
+    await Notifications.markRead(ctx.data.notificationId, ctx.context.user.id);
+  });
+
+const markAllNotificationsRead = createServerFn({ method: "POST" })
+  .middleware([authMiddlewareEnsure])
+  .handler(async (ctx) => {
+    await Notifications.markAllRead(ctx.context.user.id);
+  });
+
+type NotificationList = Awaited<ReturnType<typeof getNotifications>>;
+
+export function NotificationBell() {
+  const { data: session } = useSession();
+  const navigate = useNavigate();
+  const [data, setData] = useState<NotificationList | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setData(await getNotifications());
+    } catch (error) {
+      console.error("Failed to load notifications:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!session?.user) return;
+
+    refresh();
+    const intervalId = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [session?.user, refresh]);
+
+  if (!session?.user || !data) {
+    return null;
+  }
+
+  const handleOpen = async (notification: NotificationList["notifications"][number]) => {
+    if (!notification.readAt) {
+      await markNotificationRead({ data: { notificationId: notification.id } }).catch(console.error);
+      refresh();
+    }
+    if (notification.recipeId) {
+      navigate({ to: "/recipes/$recipeId", params: { recipeId: notification.recipeId } });
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    await markAllNotificationsRead().catch(console.error);
+    refresh();
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative p-2" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {data.unread > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 text-[10px] leading-4 bg-primary text-primary-foreground rounded-full">
+              {data.unread > 9 ? "9+" : data.unread}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notifications</span>
+          {data.unread > 0 && (
+            <button
+              type="button"
+              onClick={handleMarkAllRead}
+              className="text-xs font-normal text-primary hover:underline">
+              Mark all as read
+            </button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {data.notifications.length === 0 ? (
+          <div className="px-2 py-4 text-sm text-center text-muted-foreground">No notifications yet</div>
+        ) : (
+          data.notifications.map((notification) => (
+            <DropdownMenuItem
+              key={notification.id}
+              onClick={() => handleOpen(notification)}
+              className="flex flex-col items-start gap-0.5">
+              <span className={notification.readAt ? "text-muted-foreground" : "font-medium"}>
+                {notification.title}
+              </span>
+              {notification.message && <span className="text-xs text-muted-foreground">{notification.message}</span>}
+              <span className="text-xs text-muted-foreground">{formatDateTime(notification.createdAt)}</span>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
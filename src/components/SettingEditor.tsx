@@ -60,8 +60,10 @@ export function SettingEditor({ setting }: { setting: AppSettingInfo }) {
     setError(null);
   };
 
+  const isSecret = setting.key.endsWith("_API_KEY");
+
   const displayValue = (() => {
-    if (setting.key === "OPENAI_API_KEY" && setting.value) {
+    if (isSecret && setting.value) {
       // Show only last 8 characters with a fixed number of asterisks to prevent overflow
       const lastChars = setting.value.slice(-8);
       return `••••••••••••${lastChars}`;
@@ -88,7 +90,7 @@ export function SettingEditor({ setting }: { setting: AppSettingInfo }) {
             <Label htmlFor={`setting-${setting.key}`}>Value</Label>
             <Input
               id={`setting-${setting.key}`}
-              type={setting.key === "OPENAI_API_KEY" ? "password" : "text"}
+              type={isSecret ? "password" : "text"}
               value={value}
               onChange={(e) => setValue(e.target.value)}
               placeholder={`Enter ${setting.key}`}
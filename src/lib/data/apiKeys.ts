@@ -0,0 +1,101 @@
+import crypto from "node:crypto";
+import { type ApiKeyInput, apiKeySchema } from "../dataValidators";
+import prisma from "../prisma";
+
+const API_KEY_PREFIX = "nk_";
+
+export namespace ApiKeys {
+  /**
+   * Hash an API key for storage and lookup
+   */
+  function hashKey(key: string): string {
+    return crypto.createHash("sha256").update(key).digest("hex");
+  }
+
+  /**
+   * Get all API keys (including revoked ones), newest first
+   * Only display fields are selected, the key hash never leaves the server
+   */
+  export async function list() {
+    return prisma.apiKey.findMany({
+      select: {
+        id: true,
+        name: true,
+        keyPrefix: true,
+        lastUsedAt: true,
+        revokedAt: true,
+        createdAt: true,
+        projects: true,
+      },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  /**
+   * Create a new API key
+   * The plain key is only returned here, only its hash is stored
+   */
+  export async function create(data: ApiKeyInput, userId?: string) {
+    const validatedData = apiKeySchema.parse(data);
+
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        name: validatedData.name.trim(),
+        keyPrefix: key.slice(0, API_KEY_PREFIX.length + 6),
+        keyHash: hashKey(key),
+        createdBy: userId,
+        modifiedBy: userId,
+        projects: {
+          connect: validatedData.projectIds.map((id) => ({ id })),
+        },
+      },
+      include: {
+        projects: true,
+      },
+    });
+
+    return { apiKey, key };
+  }
+
+  /**
+   * Revoke an API key so it can no longer be used
+   */
+  export async function revoke(id: string, userId?: string) {
+    return prisma.apiKey.update({
+      where: { id },
+      data: {
+        revokedAt: new Date(),
+        modifiedBy: userId,
+      },
+    });
+  }
+
+  /**
+   * Look up an active API key from the plain key sent by a client
+   * Returns null for unknown or revoked keys
+   */
+  export async function verify(key: string) {
+    const apiKey = await prisma.apiKey.findFirst({
+      where: {
+        keyHash: hashKey(key),
+        revokedAt: null,
+      },
+      include: {
+        projects: true,
+      },
+    });
+
+    if (!apiKey) {
+      return null;
+    }
+
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date() },
+    });
+
+    return apiKey;
+  }
+}
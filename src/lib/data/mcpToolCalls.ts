@@ -0,0 +1,100 @@
+import type { Prisma } from "~/generated/prisma/client";
+import prisma from "../prisma";
+
+export interface McpToolCallInput {
+  tool: string;
+  args: Prisma.InputJsonValue;
+  resultShortIds: string[];
+  latencyMs: number;
+  projects?: string[];
+  apiKeyId?: string;
+  clientName?: string;
+  error?: string;
+}
+
+export namespace McpToolCalls {
+  /**
+   * Record a tool call made by an MCP client
+   */
+  export async function log(data: McpToolCallInput) {
+    return prisma.mcpToolCall.create({
+      data: {
+        tool: data.tool,
+        args: data.args,
+        resultShortIds: data.resultShortIds,
+        resultCount: data.resultShortIds.length,
+        latencyMs: data.latencyMs,
+        projects: data.projects ?? [],
+        apiKeyId: data.apiKeyId,
+        clientName: data.clientName,
+        error: data.error,
+      },
+    });
+  }
+
+  /**
+   * Get call counts, average latency and error counts per tool since a date
+   */
+  export async function getToolSummary(since: Date) {
+    return prisma.$queryRaw<Array<{ tool: string; calls: number; averageLatencyMs: number; errors: number }>>`
+      SELECT
+        tool,
+        COUNT(*)::int AS calls,
+        ROUND(AVG("latencyMs"))::int AS "averageLatencyMs",
+        COUNT(error)::int AS errors
+      FROM "McpToolCall"
+      WHERE "createdAt" >= ${since}
+      GROUP BY tool
+      ORDER BY tool ASC
+    `;
+  }
+
+  /**
+   * Get the recipes most often fetched with get_recipe since a date
+   */
+  export async function getMostFetchedRecipes(since: Date, limit = 20) {
+    return prisma.$queryRaw<Array<{ shortId: string; title: string | null; recipeId: string | null; count: number }>>`
+      SELECT fetched."shortId", r.title, r.id AS "recipeId", COUNT(*)::int AS count
+      FROM "McpToolCall" c
+      CROSS JOIN LATERAL unnest(c."resultShortIds") AS fetched("shortId")
+      LEFT JOIN "Recipe" r ON r."shortId" = fetched."shortId" AND r."deletedAt" IS NULL
+      WHERE c.tool = 'get_recipe'
+        AND c."createdAt" >= ${since}
+      GROUP BY fetched."shortId", r.title, r.id
+      ORDER BY count DESC
+      LIMIT ${limit}
+    `;
+  }
+
+  /**
+   * Get search_recipes queries that returned no results since a date
+   */
+  export async function getZeroResultQueries(since: Date, limit = 20) {
+    return prisma.$queryRaw<Array<{ query: string; count: number; lastSearchedAt: Date }>>`
+      SELECT args->>'query' AS query, COUNT(*)::int AS count, MAX("createdAt") AS "lastSearchedAt"
+      FROM "McpToolCall"
+      WHERE tool = 'search_recipes'
+        AND "resultCount" = 0
+        AND error IS NULL
+        AND "createdAt" >= ${since}
+      GROUP BY args->>'query'
+      ORDER BY count DESC, "lastSearchedAt" DESC
+      LIMIT ${limit}
+    `;
+  }
+
+  /**
+   * Get the number of tool calls per day and project filter since a date
+   * Calls without a project filter are counted under an empty project
+   */
+  export async function getProjectUsageByDay(since: Date) {
+    return prisma.$queryRaw<Array<{ day: Date; project: string; count: number }>>`
+      SELECT date_trunc('day', c."createdAt") AS day, COALESCE(p.project, '') AS project, COUNT(*)::int AS count
+      FROM "McpToolCall" c
+      LEFT JOIN LATERAL unnest(c.projects) AS p(project) ON true
+      WHERE c."createdAt" >= ${since}
+      GROUP BY day, project
+      ORDER BY day ASC, project ASC
+    `;
+  }
+}
@@ -0,0 +1,69 @@
+import prisma from "../prisma";
+
+export interface NotificationInput {
+  userId: string;
+  title: string;
+  message?: string;
+  recipeId?: string;
+  versionId?: string;
+  savedSearchId?: string;
+}
+
+export namespace Notifications {
+  /**
+   * Get the latest notifications of a user, newest first
+   */
+  export async function listByUser(userId: string, limit = 20) {
+    return prisma.notification.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+  }
+
+  /**
+   * Count the unread notifications of a user
+   */
+  export async function countUnread(userId: string) {
+    return prisma.notification.count({
+      where: { userId, readAt: null },
+    });
+  }
+
+  /**
+   * Create a notification for a user
+   */
+  export async function create(data: NotificationInput) {
+    return prisma.notification.create({ data });
+  }
+
+  /**
+   * Check whether a saved search already notified its user about a recipe version
+   */
+  export async function existsForSavedSearch(savedSearchId: string, versionId: string) {
+    const count = await prisma.notification.count({
+      where: { savedSearchId, versionId },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Mark a notification as read, only the owner can mark it
+   */
+  export async function markRead(id: string, userId: string) {
+    return prisma.notification.updateMany({
+      where: { id, userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+  }
+
+  /**
+   * Mark all notifications of a user as read
+   */
+  export async function markAllRead(userId: string) {
+    return prisma.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+  }
+}
@@ -16,6 +16,34 @@ export namespace Projects {
     });
   }
 
+  /**
+   * Get all non-deleted projects with a count of their current recipes, ordered by title
+   */
+  export async function listWithRecipeCounts() {
+    return prisma.project.findMany({
+      where: {
+        deletedAt: null,
+      },
+      include: {
+        _count: {
+          select: {
+            // Each recipe that is not deleted has exactly one version it points to as current
+            recipeVersions: {
+              where: {
+                isCurrent: true,
+                deletedAt: null,
+                currentForRecipes: { some: { deletedAt: null } },
+              },
+            },
+          },
+        },
+      },
+      orderBy: {
+        title: "asc",
+      },
+    });
+  }
+
   /**
    * Get a single project by ID
    */
@@ -24,6 +24,23 @@ export namespace Prompts {
     });
   }
 
+  /**
+   * Get all non-deleted user-defined prompts (everything that is not a built-in system prompt)
+   */
+  export async function listAgentPrompts() {
+    return prisma.prompt.findMany({
+      where: {
+        deletedAt: null,
+        key: {
+          notIn: Object.keys(DEFAULT_PROMPTS),
+        },
+      },
+      orderBy: {
+        name: "asc",
+      },
+    });
+  }
+
   /**
    * Get a single prompt by key with fallback to constants
    * If no prompt exists in DB or content is blank, returns the default from constants
@@ -84,6 +101,28 @@ export namespace Prompts {
       throw new Error("Prompt key already exists");
     }
 
+    // Keys are unique across deleted records too, so reuse a soft-deleted prompt with the same key
+    const deleted = await prisma.prompt.findFirst({
+      where: {
+        key: data.key,
+        deletedAt: { not: null },
+      },
+    });
+
+    if (deleted) {
+      return prisma.prompt.update({
+        where: { id: deleted.id },
+        data: {
+          name: data.name,
+          description: data.description,
+          content: data.content,
+          deletedAt: null,
+          modifiedBy: userId,
+          updatedAt: new Date(),
+        },
+      });
+    }
+
     return prisma.prompt.create({
       data: {
         key: data.key,
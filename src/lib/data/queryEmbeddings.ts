@@ -0,0 +1,78 @@
+import prisma from "../prisma";
+
+export namespace QueryEmbeddings {
+  /**
+   * Normalize a query for the cache key and for embedding, queries that only differ in case or spacing share an embedding
+   */
+  export function normalizeQuery(query: string) {
+    return query.trim().toLowerCase().replace(/\s+/g, " ");
+  }
+
+  /**
+   * Get the cached embedding of a query, or null when it is not cached or older than the TTL
+   * A found embedding is counted as a cache hit
+   */
+  export async function get(query: string, embeddingModel: string, ttlHours: number) {
+    const cached = await prisma.queryEmbedding.findUnique({
+      where: { embeddingModel_query: { embeddingModel, query: normalizeQuery(query) } },
+      select: { id: true, embedding: true, embeddedAt: true },
+    });
+    if (!cached || cached.embeddedAt.getTime() < Date.now() - ttlHours * 60 * 60 * 1000) {
+      return null;
+    }
+
+    await prisma.queryEmbedding.update({
+      where: { id: cached.id },
+      data: { hits: { increment: 1 }, lastUsedAt: new Date() },
+    });
+    return cached.embedding;
+  }
+
+  /**
+   * Store a newly generated query embedding, counted as a cache miss
+   * An expired embedding of the same query is replaced, its statistics are kept
+   */
+  export async function save(query: string, embeddingModel: string, embedding: number[]) {
+    const normalizedQuery = normalizeQuery(query);
+    const now = new Date();
+
+    return prisma.queryEmbedding.upsert({
+      where: { embeddingModel_query: { embeddingModel, query: normalizedQuery } },
+      update: { embedding, misses: { increment: 1 }, embeddedAt: now, lastUsedAt: now },
+      create: { query: normalizedQuery, embeddingModel, embedding },
+    });
+  }
+
+  /**
+   * Get the number of cached queries and the hits and misses since the cache was last cleared
+   */
+  export async function getStats() {
+    const totals = await prisma.queryEmbedding.aggregate({
+      _count: { _all: true },
+      _sum: { hits: true, misses: true },
+    });
+    const models = await prisma.$queryRaw<Array<{ embeddingModel: string; queries: number }>>`
+      SELECT "embeddingModel", COUNT(*)::int AS queries
+      FROM "QueryEmbedding"
+      GROUP BY "embeddingModel"
+      ORDER BY "embeddingModel" ASC
+    `;
+
+    const hits = totals._sum.hits ?? 0;
+    const misses = totals._sum.misses ?? 0;
+    return {
+      queries: totals._count._all,
+      hits,
+      misses,
+      hitRate: hits + misses > 0 ? hits / (hits + misses) : null,
+      models,
+    };
+  }
+
+  /**
+   * Remove all cached query embeddings and their statistics
+   */
+  export async function clear() {
+    return prisma.queryEmbedding.deleteMany({});
+  }
+}
@@ -1,4 +1,11 @@
-import { type QueueItemInput, queueItemSchema } from "../dataValidators";
+import { Prisma, type RecipeQueue } from "~/generated/prisma/client";
+import {
+  type JobPayload,
+  type JobType,
+  jobPayloadSchemas,
+  type QueueItemInput,
+  queueItemSchema,
+} from "../dataValidators";
 import prisma from "../prisma";
 
 export namespace Queue {
@@ -18,43 +25,99 @@ export namespace Queue {
   }
 
   /**
-   * Get the next pending item from the queue (pop the oldest)
+   * Claim the next pending item of one of the given job types that is due and lease it for leaseSeconds (pop the oldest)
+   * Claiming is atomic, concurrent processors skip rows another processor has locked
    */
-  export async function popNext() {
-    const nextItem = await prisma.recipeQueue.findFirst({
+  export async function popNext(leaseSeconds: number, types: JobType[]) {
+    if (types.length === 0) {
+      return null;
+    }
+
+    const [nextItem] = await prisma.$queryRaw<RecipeQueue[]>`
+      UPDATE "RecipeQueue"
+      SET "status" = 'processing',
+          "attempts" = "attempts" + 1,
+          "lockedUntil" = NOW() + ${leaseSeconds} * INTERVAL '1 second',
+          "updatedAt" = NOW()
+      WHERE "id" = (
+        SELECT "id" FROM "RecipeQueue"
+        WHERE "status" = 'pending' AND "deletedAt" IS NULL AND "runAfter" <= NOW() AND "type" = ANY(${types})
+        ORDER BY "runAfter" ASC, "createdAt" ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    return nextItem ?? null;
+  }
+
+  /**
+   * Renew the leases of items a processor is still working on, so long running jobs are not released
+   * Items are matched on the attempt that was claimed, a lease that was already lost is not renewed
+   */
+  export async function extendLeases(items: Pick<RecipeQueue, "id" | "attempts">[], leaseSeconds: number) {
+    if (items.length === 0) {
+      return 0;
+    }
+
+    const { count } = await prisma.recipeQueue.updateMany({
       where: {
-        status: "pending",
-        deletedAt: null,
+        status: "processing",
+        OR: items.map(({ id, attempts }) => ({ id, attempts })),
       },
-      orderBy: {
-        createdAt: "asc",
+      data: {
+        lockedUntil: new Date(Date.now() + leaseSeconds * 1000),
       },
     });
+    return count;
+  }
 
-    if (nextItem) {
-      // Mark as processing
-      await prisma.recipeQueue.update({
-        where: { id: nextItem.id },
-        data: {
-          status: "processing",
-        },
-      });
-    }
+  /**
+   * Return processing items whose lease expired (e.g. after a crash) to pending
+   * Items that already used maxAttempts move to the dead-letter state instead
+   */
+  export async function releaseExpiredLeases(maxAttempts: number) {
+    const expired = {
+      status: "processing",
+      deletedAt: null,
+      OR: [{ lockedUntil: null }, { lockedUntil: { lt: new Date() } }],
+    };
+
+    const dead = await prisma.recipeQueue.updateMany({
+      where: { ...expired, attempts: { gte: maxAttempts } },
+      data: {
+        status: "dead",
+        completedAt: new Date(),
+        lockedUntil: null,
+        error: "Processing did not finish before the lease expired",
+      },
+    });
+    const released = await prisma.recipeQueue.updateMany({
+      where: expired,
+      data: {
+        status: "pending",
+        runAfter: new Date(),
+        lockedUntil: null,
+      },
+    });
 
-    return nextItem;
+    return { released: released.count, dead: dead.count };
   }
 
   /**
-   * Add a new item to the queue
+   * Add a new job to the queue, its payload is validated against the schema of the job type
    */
-  export async function add(data: QueueItemInput, userId?: string) {
+  export async function add<T extends JobType>(type: T, payload: JobPayload<T>, data: QueueItemInput, userId?: string) {
     // Validate the input
+    const validatedPayload = jobPayloadSchemas[type].parse(payload);
     const validatedData = queueItemSchema.parse(data);
 
-    // Check if an item with the same versionId is already in the queue (pending or processing)
+    // Check if a job of the same type for the same versionId is already in the queue (pending or processing)
     const existingItem = await prisma.recipeQueue.findFirst({
       where: {
-        versionId: validatedData.versionId,
+        type,
+        versionId: validatedData.versionId ?? null,
         status: {
           in: ["pending", "processing"],
         },
@@ -63,12 +126,14 @@ export namespace Queue {
     });
 
     if (existingItem) {
-      // Don't add duplicate items for the same version
+      // Don't add duplicate jobs for the same version
       return existingItem;
     }
 
     return prisma.recipeQueue.create({
       data: {
+        type,
+        payload: validatedPayload,
         title: validatedData.title,
         shortid: validatedData.shortid,
         versionId: validatedData.versionId,
@@ -80,30 +145,92 @@ export namespace Queue {
   }
 
   /**
-   * Mark an item as completed
+   * Mark a claimed item as completed, returns false if its lease was lost and it was claimed again
    */
-  export async function markCompleted(id: string, userId?: string) {
-    return prisma.recipeQueue.update({
-      where: { id },
+  export async function markCompleted(item: Pick<RecipeQueue, "id" | "attempts">, userId?: string) {
+    const { count } = await prisma.recipeQueue.updateMany({
+      where: { id: item.id, status: "processing", attempts: item.attempts },
       data: {
         status: "completed",
         completedAt: new Date(),
+        lockedUntil: null,
+        error: null,
         modifiedBy: userId,
       },
     });
+    return count > 0;
   }
 
   /**
-   * Mark an item as failed
+   * Record a failed attempt of a claimed item, the item is pending again at retryAt
+   * Without retryAt the item moves to the dead-letter state, returns false if its lease was lost
    */
-  export async function markFailed(id: string, error?: string, userId?: string) {
-    return prisma.recipeQueue.update({
-      where: { id },
+  export async function markFailed(item: Pick<RecipeQueue, "id" | "attempts">, error: string, retryAt: Date | null) {
+    const { count } = await prisma.recipeQueue.updateMany({
+      where: { id: item.id, status: "processing", attempts: item.attempts },
+      data: retryAt
+        ? {
+            status: "pending",
+            runAfter: retryAt,
+            lockedUntil: null,
+            error,
+          }
+        : {
+            status: "dead",
+            completedAt: new Date(),
+            lockedUntil: null,
+            error,
+          },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Get the names of the steps of an item that completed in an earlier attempt
+   */
+  export async function getCompletedSteps(queueItemId: string) {
+    const steps = await prisma.queueStep.findMany({
+      where: { queueItemId, status: "completed" },
+      select: { name: true },
+    });
+    return steps.map((step) => step.name);
+  }
+
+  /**
+   * Add the steps an item is about to run, steps from an earlier attempt are kept
+   */
+  export async function addSteps(queueItemId: string, names: string[]) {
+    return prisma.queueStep.createMany({
+      data: names.map((name) => ({ queueItemId, name })),
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * Mark a step of an item as completed, it is skipped when the item is retried
+   */
+  export async function markStepCompleted(queueItemId: string, name: string) {
+    return prisma.queueStep.update({
+      where: { queueItemId_name: { queueItemId, name } },
       data: {
-        status: "failed",
+        status: "completed",
+        attempts: { increment: 1 },
+        error: null,
         completedAt: new Date(),
-        error: error || null,
-        modifiedBy: userId,
+      },
+    });
+  }
+
+  /**
+   * Mark a step of an item as failed, it runs again when the item is retried
+   */
+  export async function markStepFailed(queueItemId: string, name: string, error: string) {
+    return prisma.queueStep.update({
+      where: { queueItemId_name: { queueItemId, name } },
+      data: {
+        status: "failed",
+        attempts: { increment: 1 },
+        error,
       },
     });
   }
@@ -122,21 +249,40 @@ export namespace Queue {
   }
 
   /**
-   * Get queue statistics
+   * Get queue statistics, optionally only for one job type
    */
-  export async function getStats() {
-    const [pending, processing, completed, failed] = await Promise.all([
-      prisma.recipeQueue.count({ where: { status: "pending", deletedAt: null } }),
-      prisma.recipeQueue.count({ where: { status: "processing", deletedAt: null } }),
-      prisma.recipeQueue.count({ where: { status: "completed", deletedAt: null } }),
-      prisma.recipeQueue.count({ where: { status: "failed", deletedAt: null } }),
+  export async function getStats(type?: JobType) {
+    const [pending, processing, completed, dead, cancelled] = await Promise.all([
+      prisma.recipeQueue.count({ where: { status: "pending", type, deletedAt: null } }),
+      prisma.recipeQueue.count({ where: { status: "processing", type, deletedAt: null } }),
+      prisma.recipeQueue.count({ where: { status: "completed", type, deletedAt: null } }),
+      prisma.recipeQueue.count({ where: { status: "dead", type, deletedAt: null } }),
+      prisma.recipeQueue.count({ where: { status: "cancelled", type, deletedAt: null } }),
     ]);
 
-    return { pending, processing, completed, failed };
+    return { pending, processing, completed, dead, cancelled };
+  }
+
+  /**
+   * Get the number of completed and dead-letter items per interval since a date, for throughput charts
+   */
+  export async function getThroughput(since: Date, intervalMinutes: number, type?: JobType) {
+    const intervalSeconds = intervalMinutes * 60;
+    return prisma.$queryRaw<Array<{ bucket: Date; completed: number; dead: number }>>`
+      SELECT to_timestamp(floor(extract(epoch FROM "completedAt") / ${intervalSeconds}) * ${intervalSeconds}) AS bucket,
+        COUNT(*) FILTER (WHERE "status" = 'completed')::int AS completed,
+        COUNT(*) FILTER (WHERE "status" = 'dead')::int AS dead
+      FROM "RecipeQueue"
+      WHERE "completedAt" >= ${since}
+        AND "status" IN ('completed', 'dead')
+        ${type ? Prisma.sql`AND "type" = ${type}` : Prisma.empty}
+      GROUP BY bucket
+      ORDER BY bucket ASC
+    `;
   }
 
   /**
-   * Clean up old completed items (older than 7 days)
+   * Clean up old finished items (older than 7 days)
    */
   export async function cleanup() {
     const sevenDaysAgo = new Date();
@@ -145,7 +291,7 @@ export namespace Queue {
     return prisma.recipeQueue.updateMany({
       where: {
         status: {
-          in: ["completed", "failed"],
+          in: ["completed", "dead", "cancelled"],
         },
         completedAt: {
           lt: sevenDaysAgo,
@@ -159,12 +305,16 @@ export namespace Queue {
   }
 
   /**
-   * Get recent error items with recipe details
+   * Get recent dead-letter items (out of attempts) with recipe details
    */
-  export async function getRecentErrors(limit = 10) {
+  export async function getRecentErrors(limit = 10, type?: JobType) {
     const queueItems = await prisma.recipeQueue.findMany({
+      // Payloads are only read by the job handlers
+      omit: { payload: true },
+      include: { steps: { orderBy: { createdAt: "asc" } } },
       where: {
-        status: "failed",
+        status: "dead",
+        type,
         deletedAt: null,
       },
       orderBy: {
@@ -173,33 +323,19 @@ export namespace Queue {
       take: limit,
     });
 
-    // Manually join with RecipeVersion and Recipe data
-    const itemsWithDetails = await Promise.all(
-      queueItems.map(async (item) => {
-        const recipeVersion = await prisma.recipeVersion.findUnique({
-          where: { id: item.versionId },
-          include: {
-            recipe: true,
-          },
-        });
-
-        return {
-          ...item,
-          recipeVersion,
-        };
-      }),
-    );
-
-    return itemsWithDetails.filter((item) => item.recipeVersion !== null);
+    return withRecipeVersions(queueItems);
   }
 
   /**
    * Get pending items with recipe details
    */
-  export async function getPending(limit = 20) {
+  export async function getPending(limit = 20, type?: JobType) {
     const queueItems = await prisma.recipeQueue.findMany({
+      omit: { payload: true },
+      include: { steps: { orderBy: { createdAt: "asc" } } },
       where: {
         status: "pending",
+        type,
         deletedAt: null,
       },
       orderBy: {
@@ -208,33 +344,40 @@ export namespace Queue {
       take: limit,
     });
 
-    // Manually join with RecipeVersion and Recipe data
-    const itemsWithDetails = await Promise.all(
-      queueItems.map(async (item) => {
-        const recipeVersion = await prisma.recipeVersion.findUnique({
-          where: { id: item.versionId },
-          include: {
-            recipe: true,
-          },
-        });
+    return withRecipeVersions(queueItems);
+  }
 
-        return {
-          ...item,
-          recipeVersion,
-        };
-      }),
-    );
+  /**
+   * Get items that are being processed with recipe details
+   */
+  export async function getProcessing(limit = 20, type?: JobType) {
+    const queueItems = await prisma.recipeQueue.findMany({
+      where: {
+        status: "processing",
+        type,
+        deletedAt: null,
+      },
+      omit: { payload: true },
+      include: { steps: { orderBy: { createdAt: "asc" } } },
+      orderBy: {
+        updatedAt: "asc",
+      },
+      take: limit,
+    });
 
-    return itemsWithDetails.filter((item) => item.recipeVersion !== null);
+    return withRecipeVersions(queueItems);
   }
 
   /**
    * Get recently completed items with recipe details
    */
-  export async function getRecentCompleted(limit = 10) {
+  export async function getRecentCompleted(limit = 10, type?: JobType) {
     const queueItems = await prisma.recipeQueue.findMany({
+      omit: { payload: true },
+      include: { steps: { orderBy: { createdAt: "asc" } } },
       where: {
         status: "completed",
+        type,
         deletedAt: null,
       },
       orderBy: {
@@ -243,52 +386,42 @@ export namespace Queue {
       take: limit,
     });
 
-    // Manually join with RecipeVersion and Recipe data
-    const itemsWithDetails = await Promise.all(
-      queueItems.map(async (item) => {
-        const recipeVersion = await prisma.recipeVersion.findUnique({
-          where: { id: item.versionId },
-          include: {
-            recipe: true,
-          },
-        });
-
-        return {
-          ...item,
-          recipeVersion,
-        };
-      }),
-    );
-
-    return itemsWithDetails.filter((item) => item.recipeVersion !== null);
+    return withRecipeVersions(queueItems);
   }
 
   /**
-   * Retry a failed queue item
+   * Retry a dead-letter queue item with a fresh set of attempts, items in any other state are left alone
    */
   export async function retry(id: string, userId?: string) {
-    return prisma.recipeQueue.update({
-      where: { id },
+    const result = await prisma.recipeQueue.updateMany({
+      where: { id, status: "dead", deletedAt: null },
       data: {
         status: "pending",
+        attempts: 0,
+        runAfter: new Date(),
         error: null,
         completedAt: null,
         modifiedBy: userId,
       },
     });
+
+    return { count: result.count };
   }
 
   /**
-   * Retry all failed queue items
+   * Retry all dead-letter queue items, optionally only those of one job type
    */
-  export async function retryAllErrors() {
+  export async function retryAllErrors(type?: JobType) {
     const result = await prisma.recipeQueue.updateMany({
       where: {
-        status: "failed",
+        status: "dead",
+        type,
         deletedAt: null,
       },
       data: {
         status: "pending",
+        attempts: 0,
+        runAfter: new Date(),
         error: null,
         completedAt: null,
       },
@@ -296,4 +429,116 @@ export namespace Queue {
 
     return { count: result.count };
   }
+
+  /**
+   * Cancel a pending queue item, items that are already processing are not cancelled
+   */
+  export async function cancel(id: string, userId?: string) {
+    const result = await prisma.recipeQueue.updateMany({
+      where: { id, status: "pending", deletedAt: null },
+      data: {
+        status: "cancelled",
+        completedAt: new Date(),
+        modifiedBy: userId,
+      },
+    });
+
+    return { count: result.count };
+  }
+
+  /**
+   * Cancel all pending queue items, optionally only those of one job type
+   */
+  export async function cancelAllPending(type?: JobType, userId?: string) {
+    const result = await prisma.recipeQueue.updateMany({
+      where: { status: "pending", type, deletedAt: null },
+      data: {
+        status: "cancelled",
+        completedAt: new Date(),
+        modifiedBy: userId,
+      },
+    });
+
+    return { count: result.count };
+  }
+
+  /**
+   * Record that a queue processor is alive, with its current status
+   */
+  export async function heartbeat(worker: {
+    id: string;
+    hostname: string;
+    pid: number;
+    concurrency: number;
+    activeItems: number;
+  }) {
+    const { id, ...status } = worker;
+    return prisma.queueWorker.upsert({
+      where: { id },
+      update: { ...status, lastSeenAt: new Date() },
+      create: worker,
+    });
+  }
+
+  /**
+   * Remove a queue processor that stopped
+   */
+  export async function removeWorker(id: string) {
+    return prisma.queueWorker.deleteMany({ where: { id } });
+  }
+
+  /**
+   * Get the queue processors that sent a heartbeat since a date
+   */
+  export async function listWorkers(since: Date) {
+    return prisma.queueWorker.findMany({
+      where: { lastSeenAt: { gte: since } },
+      orderBy: { startedAt: "asc" },
+    });
+  }
+
+  /**
+   * Check whether processing is paused for all queue processors
+   */
+  export async function isPaused() {
+    const control = await prisma.queueControl.findUnique({ where: { id: "queue" } });
+    return control?.paused ?? false;
+  }
+
+  /**
+   * Pause or resume processing for all queue processors, items in progress are finished
+   */
+  export async function setPaused(paused: boolean) {
+    return prisma.queueControl.upsert({
+      where: { id: "queue" },
+      update: { paused },
+      create: { id: "queue", paused },
+    });
+  }
+}
+
+/**
+ * Manually join queue items with their RecipeVersion and Recipe data
+ * Jobs about a recipe version that no longer exists are left out, jobs without a version are kept
+ */
+async function withRecipeVersions<T extends { versionId: string | null }>(queueItems: T[]) {
+  const itemsWithDetails = await Promise.all(
+    queueItems.map(async (item) => {
+      const recipeVersion = item.versionId
+        ? await prisma.recipeVersion.findUnique({
+            where: { id: item.versionId },
+            include: {
+              recipe: true,
+            },
+          })
+        : null;
+
+      return {
+        ...item,
+        recipeVersion,
+      };
+    }),
+  );
+
+  return itemsWithDetails.filter((item) => !item.versionId || item.recipeVersion !== null);
 }
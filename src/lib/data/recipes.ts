@@ -1,7 +1,10 @@
 import crypto from "node:crypto";
+import type { Prisma } from "~/generated/prisma/client";
 import { type RecipeInput, type RecipeVersionInput, recipeSchema, recipeVersionSchema } from "../dataValidators";
 import prisma from "../prisma";
 import { AIService } from "../services/ai";
+import { AIProviders } from "../services/aiProviders";
+import { Chunking } from "../services/chunking";
 import { Queue } from "./queue";
 import { VecDocuments } from "./vecDocuments";
 
@@ -31,6 +34,7 @@ export namespace Recipes {
     return prisma.recipe.findMany({
       where: {
         deletedAt: null,
+        currentVersionId: { not: null },
       },
       include: {
         modifiedByUser: true,
@@ -49,11 +53,18 @@ export namespace Recipes {
   }
 
   /**
-   * Get all non-deleted recipes, ordered by title
+   * Get all non-deleted recipes, ordered by title, optionally limited to projects
    */
-  export async function list(options?: { page?: number; pageSize?: number }) {
-    const where = {
+  export async function list(options?: { page?: number; pageSize?: number; projectShortIds?: string[] }) {
+    const where: Prisma.RecipeWhereInput = {
       deletedAt: null,
+      currentVersionId: { not: null },
+      // Only recipes whose current version belongs to one of the given projects
+      ...(options?.projectShortIds && {
+        currentVersion: {
+          projects: { some: { shortId: { in: options.projectShortIds }, deletedAt: null } },
+        },
+      }),
     };
 
     const include = {
@@ -127,6 +138,22 @@ export namespace Recipes {
     });
   }
 
+  /**
+   * Get the current version ID of recipes by shortId (used to detect new current versions)
+   */
+  export async function getCurrentVersionIds(shortIds: string[]) {
+    return prisma.recipe.findMany({
+      where: {
+        shortId: { in: shortIds },
+        deletedAt: null,
+      },
+      select: {
+        shortId: true,
+        currentVersionId: true,
+      },
+    });
+  }
+
   /**
    * Get a single recipe by shortId with current version
    */
@@ -147,6 +174,35 @@ export namespace Recipes {
     });
   }
 
+  /**
+   * Get the current versions of all recipes associated with a project shortId, ordered by title
+   */
+  export async function listCurrentByProject(projectShortId: string) {
+    return prisma.recipeVersion.findMany({
+      where: {
+        isCurrent: true,
+        deletedAt: null,
+        recipe: {
+          deletedAt: null,
+        },
+        projects: {
+          some: {
+            shortId: projectShortId,
+            deletedAt: null,
+          },
+        },
+      },
+      include: {
+        tags: true,
+        projects: true,
+        recipe: true,
+      },
+      orderBy: {
+        title: "asc",
+      },
+    });
+  }
+
   /**
    * Create a new recipe with initial version
    */
@@ -228,6 +284,8 @@ export namespace Recipes {
       // Add to queue for processing (summarization and embedding)
       try {
         await Queue.add(
+          "process-recipe",
+          { versionId: version.id },
           {
             title: version.title,
             shortid: version.shortId,
@@ -354,6 +412,8 @@ export namespace Recipes {
       // Add to queue for processing (summarization and embedding)
       try {
         await Queue.add(
+          "process-recipe",
+          { versionId: newVersion.id },
           {
             title: newVersion.title,
             shortid: newVersion.shortId,
@@ -371,6 +431,314 @@ export namespace Recipes {
     });
   }
 
+  /**
+   * Propose a new recipe (e.g. from an AI agent)
+   * Creates the recipe with a draft first version that stays hidden until it is accepted in review
+   */
+  export async function propose(recipeData: RecipeInput, versionData: RecipeVersionInput, userId?: string) {
+    const validatedRecipe = recipeSchema.parse(recipeData);
+    const validatedVersion = recipeVersionSchema.parse(versionData);
+
+    const existingRecipe = await prisma.recipe.findFirst({
+      where: {
+        shortId: {
+          equals: validatedRecipe.shortId,
+          mode: "insensitive",
+        },
+        deletedAt: null,
+      },
+    });
+
+    if (existingRecipe) {
+      throw new Error("Recipe ID already exists");
+    }
+
+    const contentHash = createContentHash(
+      validatedVersion.content,
+      validatedVersion.title,
+      validatedVersion.tagIds,
+      validatedVersion.projectIds,
+    );
+
+    return prisma.$transaction(async (tx) => {
+      // Create the recipe without a current version
+      const recipe = await tx.recipe.create({
+        data: {
+          title: validatedRecipe.title.trim(),
+          shortId: validatedRecipe.shortId.trim(),
+          createdBy: userId,
+          modifiedBy: userId,
+        },
+      });
+
+      const version = await tx.recipeVersion.create({
+        data: {
+          title: validatedVersion.title.trim(),
+          shortId: `${validatedRecipe.shortId}-v1`,
+          content: validatedVersion.content,
+          versionId: generateVersionId(1),
+          versionNumber: 1,
+          isCurrent: false,
+          reviewStatus: "pending",
+          contentHash,
+          comment: validatedVersion.comment,
+          recipeId: recipe.id,
+          createdBy: userId,
+          modifiedBy: userId,
+          tags: {
+            connect: validatedVersion.tagIds.map((id) => ({ id })),
+          },
+          projects: {
+            connect: validatedVersion.projectIds.map((id) => ({ id })),
+          },
+        },
+      });
+
+      return {
+        recipe,
+        version,
+      };
+    });
+  }
+
+  /**
+   * Propose an edit to an existing recipe (e.g. from an AI agent)
+   * Creates a draft version that does not become current until it is accepted in review
+   */
+  export async function proposeEdit(recipeId: string, versionData: RecipeVersionInput, userId?: string) {
+    const validatedVersion = recipeVersionSchema.parse(versionData);
+
+    const recipe = await prisma.recipe.findFirst({
+      where: { id: recipeId, deletedAt: null },
+      include: {
+        currentVersion: {
+          include: {
+            tags: true,
+            projects: true,
+          },
+        },
+      },
+    });
+
+    if (!recipe || !recipe.currentVersion) {
+      throw new Error("Recipe not found");
+    }
+
+    const newContentHash = createContentHash(
+      validatedVersion.content,
+      validatedVersion.title,
+      validatedVersion.tagIds,
+      validatedVersion.projectIds,
+    );
+
+    const currentContentHash = createContentHash(
+      recipe.currentVersion.content,
+      recipe.currentVersion.title,
+      recipe.currentVersion.tags.map((tag) => tag.id),
+      recipe.currentVersion.projects.map((project) => project.id),
+    );
+
+    if (currentContentHash === newContentHash) {
+      throw new Error("No changes detected - content is identical to current version");
+    }
+
+    const lastVersion = await prisma.recipeVersion.findFirst({
+      where: { recipeId }, // we want deleted here, so we can avoid duplicate version ids
+      orderBy: { versionNumber: "desc" },
+    });
+
+    const nextVersionNumber = (lastVersion?.versionNumber || 0) + 1;
+
+    return prisma.recipeVersion.create({
+      data: {
+        title: validatedVersion.title.trim(),
+        shortId: `${recipe.shortId}-v${nextVersionNumber}`,
+        content: validatedVersion.content,
+        versionId: generateVersionId(nextVersionNumber),
+        versionNumber: nextVersionNumber,
+        isCurrent: false,
+        reviewStatus: "pending",
+        baseVersionId: recipe.currentVersionId,
+        contentHash: newContentHash,
+        comment: validatedVersion.comment,
+        recipeId: recipe.id,
+        createdBy: userId,
+        modifiedBy: userId,
+        tags: {
+          connect: validatedVersion.tagIds.map((id) => ({ id })),
+        },
+        projects: {
+          connect: validatedVersion.projectIds.map((id) => ({ id })),
+        },
+      },
+    });
+  }
+
+  /**
+   * Get all proposals waiting for review, oldest first, with the current version to compare against
+   */
+  export async function listPendingProposals() {
+    return prisma.recipeVersion.findMany({
+      where: {
+        reviewStatus: "pending",
+        deletedAt: null,
+        recipe: {
+          deletedAt: null,
+        },
+      },
+      include: {
+        tags: true,
+        projects: true,
+        createdByUser: true,
+        recipe: {
+          include: {
+            currentVersion: {
+              include: {
+                tags: true,
+                projects: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  /**
+   * Whether a proposed edit was based on a version that is no longer current
+   */
+  function isProposalOutdated(proposal: { baseVersionId: string | null; recipe: { currentVersionId: string | null } }) {
+    return !!proposal.baseVersionId && proposal.baseVersionId !== proposal.recipe.currentVersionId;
+  }
+
+  /**
+   * Count the proposals waiting for review for a recipe
+   */
+  export async function countPendingProposals(recipeId: string) {
+    return prisma.recipeVersion.count({
+      where: {
+        recipeId,
+        reviewStatus: "pending",
+        deletedAt: null,
+      },
+    });
+  }
+
+  /**
+   * Accept a proposal, making it the current version of its recipe
+   * Refuses an edit whose base version is no longer current unless overwrite is set,
+   * so newer changes are not replaced without the reviewer knowing
+   */
+  export async function acceptProposal(versionId: string, userId?: string, overwrite = false) {
+    const proposal = await prisma.recipeVersion.findFirst({
+      where: { id: versionId, reviewStatus: "pending", deletedAt: null },
+      include: { recipe: true },
+    });
+
+    if (!proposal) {
+      throw new Error("Proposal not found");
+    }
+
+    if (isProposalOutdated(proposal) && !overwrite) {
+      throw new Error("The recipe has changed since this edit was proposed");
+    }
+
+    return prisma.$transaction(async (tx) => {
+      // Mark current version as not current
+      if (proposal.recipe.currentVersionId) {
+        await tx.recipeVersion.update({
+          where: { id: proposal.recipe.currentVersionId },
+          data: {
+            isCurrent: false,
+            modifiedBy: userId,
+          },
+        });
+      }
+
+      const acceptedVersion = await tx.recipeVersion.update({
+        where: { id: proposal.id },
+        data: {
+          isCurrent: true,
+          reviewStatus: "accepted",
+          reviewedAt: new Date(),
+          reviewedBy: userId,
+          modifiedBy: userId,
+        },
+      });
+
+      await tx.recipe.update({
+        where: { id: proposal.recipeId },
+        data: {
+          title: acceptedVersion.title,
+          currentVersionId: acceptedVersion.id,
+          modifiedBy: userId,
+        },
+      });
+
+      // Add to queue for processing (summarization and embedding)
+      try {
+        await Queue.add(
+          "process-recipe",
+          { versionId: acceptedVersion.id },
+          {
+            title: acceptedVersion.title,
+            shortid: acceptedVersion.shortId,
+            versionId: acceptedVersion.id,
+            status: "pending",
+          },
+          userId,
+        );
+      } catch (error) {
+        // Log error but don't fail the review
+        console.error("Failed to add recipe version to queue:", error);
+      }
+
+      return acceptedVersion;
+    });
+  }
+
+  /**
+   * Reject a proposal
+   * Rejecting a proposed new recipe also soft deletes the recipe and renames its shortId, which is unique
+   * even among deleted recipes, so the ID can be proposed or used again
+   */
+  export async function rejectProposal(versionId: string, userId?: string) {
+    const proposal = await prisma.recipeVersion.findFirst({
+      where: { id: versionId, reviewStatus: "pending", deletedAt: null },
+      include: { recipe: true },
+    });
+
+    if (!proposal) {
+      throw new Error("Proposal not found");
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const rejectedVersion = await tx.recipeVersion.update({
+        where: { id: proposal.id },
+        data: {
+          reviewStatus: "rejected",
+          reviewedAt: new Date(),
+          reviewedBy: userId,
+          modifiedBy: userId,
+        },
+      });
+
+      if (!proposal.recipe.currentVersionId) {
+        await tx.recipe.update({
+          where: { id: proposal.recipeId },
+          data: {
+            shortId: `${proposal.recipe.shortId}~rejected~${proposal.recipeId}`,
+            deletedAt: new Date(),
+            modifiedBy: userId,
+          },
+        });
+      }
+
+      return rejectedVersion;
+    });
+  }
+
   /**
    * Get all versions of a recipe (for version history)
    */
@@ -387,6 +755,8 @@ export namespace Recipes {
       where: {
         recipeId,
         deletedAt: null,
+        // Pending and rejected proposals are not part of the history
+        OR: [{ reviewStatus: null }, { reviewStatus: "accepted" }],
       },
       include: {
         tags: true,
@@ -416,9 +786,10 @@ export namespace Recipes {
 
   /**
    * Get a specific version by version number (read-only)
+   * Pending and rejected proposals are never returned
    */
   export async function getVersionByNumber(recipeId: string, versionNumber: number) {
-    return prisma.recipeVersion.findFirst({
+    const version = await prisma.recipeVersion.findFirst({
       where: {
         recipeId,
         versionNumber,
@@ -430,6 +801,11 @@ export namespace Recipes {
         recipe: true,
       },
     });
+
+    if (version?.reviewStatus === "pending" || version?.reviewStatus === "rejected") {
+      return null;
+    }
+    return version;
   }
 
   /**
@@ -626,24 +1002,25 @@ export namespace Recipes {
     }
 
     try {
-      // Combine title and content for embedding
-      const textToEmbed = `${version.title}\n\n${version.content}`;
-
-      // Generate embedding using OpenAI
-      const embedding = await AIService.generateEmbedding(textToEmbed);
+      // Split long recipes into heading-aware chunks so every section can be found
+      const chunks = Chunking.chunkRecipe(version.content);
+      const embeddings = await AIService.generateEmbeddings(
+        chunks.map((chunk) => Chunking.getEmbeddingText(version.title, chunk)),
+      );
 
       // Store in VecDocument table
-      await VecDocuments.upsert(
+      await VecDocuments.upsertChunks(
         version.title,
         version.shortId,
-        embedding,
+        chunks.map((chunk, index) => ({ ...chunk, embedding: embeddings[index] })),
+        AIProviders.getEmbeddingModelName(),
         version.id,
         version.recipeId,
         version.isCurrent,
       );
 
-      console.log(`Updated embedding for recipe version: ${version.title}`);
-      return embedding;
+      console.log(`Updated embedding for recipe version: ${version.title} (${chunks.length} chunks)`);
+      return embeddings;
     } catch (error) {
       console.error(`Failed to update embedding for version ${versionId}:`, error);
       throw error;
@@ -651,20 +1028,34 @@ export namespace Recipes {
   }
 
   /**
-   * Process a recipe version - generate both AI summary and embedding
+   * Queue the embedding of the current version of every recipe, e.g. after the embedding model changed
+   * Summaries are kept, versions that are already queued are not added twice
    */
-  export async function processRecipeVersion(versionId: string) {
-    console.log(`Processing recipe version: ${versionId}`);
-
-    try {
-      // Run both operations in parallel for efficiency
-      const [summary, embedding] = await Promise.all([updateAISummary(versionId), updateEmbedding(versionId)]);
+  export async function enqueueAllCurrentVersions(userId?: string) {
+    const versions = await prisma.recipeVersion.findMany({
+      where: {
+        isCurrent: true,
+        deletedAt: null,
+        currentForRecipes: { some: { deletedAt: null } },
+      },
+      select: { id: true, title: true, shortId: true },
+      orderBy: { title: "asc" },
+    });
 
-      console.log(`Successfully processed recipe version: ${versionId}`);
-      return { summary, embedding };
-    } catch (error) {
-      console.error(`Failed to process recipe version ${versionId}:`, error);
-      throw error;
+    for (const version of versions) {
+      await Queue.add(
+        "process-recipe",
+        { versionId: version.id, steps: ["embedding"] },
+        {
+          title: version.title,
+          shortid: version.shortId,
+          versionId: version.id,
+          status: "pending",
+        },
+        userId,
+      );
     }
+
+    return { count: versions.length };
   }
 }
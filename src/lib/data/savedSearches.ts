@@ -0,0 +1,71 @@
+import { type SavedSearchInput, type SearchFilterParams, savedSearchSchema } from "../dataValidators";
+import prisma from "../prisma";
+
+export namespace SavedSearches {
+  /**
+   * Get the saved searches of a user, by name
+   */
+  export async function listByUser(userId: string) {
+    const savedSearches = await prisma.savedSearch.findMany({
+      where: { userId },
+      orderBy: { name: "asc" },
+    });
+    return savedSearches.map(withFilterParams);
+  }
+
+  /**
+   * Get all saved searches that notify their user about new matching recipe versions
+   */
+  export async function listSubscriptions() {
+    const savedSearches = await prisma.savedSearch.findMany({
+      where: { notify: true },
+    });
+    return savedSearches.map(withFilterParams);
+  }
+
+  /**
+   * Save a search for a user
+   */
+  export async function create(data: SavedSearchInput, userId: string) {
+    const validatedData = savedSearchSchema.parse(data);
+
+    return prisma.savedSearch.create({
+      data: {
+        userId,
+        name: validatedData.name,
+        query: validatedData.query,
+        filters: validatedData.filters,
+        notify: validatedData.notify,
+        notifyThreshold: validatedData.notifyThreshold,
+      },
+    });
+  }
+
+  /**
+   * Turn notifications of a saved search on or off, only the owner can change it
+   */
+  export async function setNotify(id: string, notify: boolean, userId: string) {
+    return prisma.savedSearch.update({
+      where: { id, userId },
+      data: { notify },
+    });
+  }
+
+  /**
+   * Delete a saved search, only the owner can delete it
+   */
+  export async function deleteSavedSearch(id: string, userId: string) {
+    return prisma.savedSearch.delete({
+      where: { id, userId },
+    });
+  }
+}
+
+/**
+ * Type the stored filter JSON, it was validated with savedSearchSchema when it was saved
+ */
+function withFilterParams<T extends { filters: unknown }>(
+  savedSearch: T,
+): Omit<T, "filters"> & { filters: SearchFilterParams } {
+  return { ...savedSearch, filters: savedSearch.filters as SearchFilterParams };
+}
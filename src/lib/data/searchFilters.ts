@@ -0,0 +1,75 @@
+import { Prisma } from "~/generated/prisma/client";
+import type { SearchFilterParams } from "../dataValidators";
+
+export interface SearchFilters {
+  /** Only match versions with these tags */
+  tagIds?: string[];
+  /** Whether a version needs any (default) or all of the tags */
+  tagMode?: "any" | "all";
+  /** Only match recipes created by this user */
+  authorId?: string;
+  /** Only match versions written on or after this date */
+  updatedAfter?: Date;
+  /** Only match versions written before this date */
+  updatedBefore?: Date;
+  /** Also match versions that are no longer current */
+  includeArchived?: boolean;
+  /** Leave out this recipe */
+  excludeRecipeId?: string;
+  /** Only match this recipe version */
+  versionId?: string;
+}
+
+/**
+ * Convert the filter parameters of the /search URL or a saved search to search filters
+ * Projects are not included, they are passed to the searches separately
+ */
+export function toSearchFilters(params: SearchFilterParams): SearchFilters {
+  return {
+    tagIds: params.tags,
+    tagMode: params.tagMode,
+    authorId: params.author,
+    updatedAfter: params.updatedAfter ? new Date(params.updatedAfter) : undefined,
+    updatedBefore: params.updatedBefore ? new Date(params.updatedBefore) : undefined,
+    includeArchived: params.archived,
+  };
+}
+
+/**
+ * Build the SQL conditions for search filters on a column holding RecipeVersion IDs
+ * includeArchived is left to the caller, because each table tracks the current version itself
+ */
+export function buildSearchFilterSql(filters: SearchFilters, versionIdColumn: Prisma.Sql) {
+  const conditions: Prisma.Sql[] = [];
+
+  if (filters.versionId) {
+    conditions.push(Prisma.sql`AND ${versionIdColumn} = ${filters.versionId}`);
+  }
+
+  if (filters.tagIds && filters.tagIds.length > 0) {
+    // With "all", a version needs as many distinct matching tags as were requested
+    const requiredTags = filters.tagMode === "all" ? new Set(filters.tagIds).size : 1;
+    conditions.push(Prisma.sql`AND ${versionIdColumn} IN (
+      SELECT rvt."A"
+      FROM "_RecipeVersionTags" rvt
+      WHERE rvt."B" IN (${Prisma.join(filters.tagIds)})
+      GROUP BY rvt."A"
+      HAVING COUNT(DISTINCT rvt."B") >= ${requiredTags}
+    )`);
+  }
+
+  if (filters.authorId || filters.updatedAfter || filters.updatedBefore || filters.excludeRecipeId) {
+    conditions.push(Prisma.sql`AND ${versionIdColumn} IN (
+      SELECT fv.id
+      FROM "RecipeVersion" fv
+      INNER JOIN "Recipe" fr ON fr.id = fv."recipeId"
+      WHERE fr."deletedAt" IS NULL
+        ${filters.authorId ? Prisma.sql`AND fr."createdBy" = ${filters.authorId}` : Prisma.empty}
+        ${filters.updatedAfter ? Prisma.sql`AND fv."createdAt" >= ${filters.updatedAfter}` : Prisma.empty}
+        ${filters.updatedBefore ? Prisma.sql`AND fv."createdAt" < ${filters.updatedBefore}` : Prisma.empty}
+        ${filters.excludeRecipeId ? Prisma.sql`AND fr.id <> ${filters.excludeRecipeId}` : Prisma.empty}
+    )`);
+  }
+
+  return conditions.length > 0 ? Prisma.join(conditions, " ") : Prisma.empty;
+}
@@ -0,0 +1,165 @@
+import type { Prisma } from "~/generated/prisma/client";
+import prisma from "../prisma";
+
+export type SearchSource = "web" | "mcp";
+
+export interface SearchQueryInput {
+  query: string;
+  source: SearchSource;
+  filters?: Prisma.InputJsonValue;
+  resultShortIds: string[];
+  topSimilarity: number | null;
+  latencyMs: number;
+  userId?: string;
+  apiKeyId?: string;
+}
+
+// An agent fetching a recipe this long after a search counts as a click-through of that search
+const MCP_CLICK_WINDOW_MS = 30 * 60 * 1000;
+
+export namespace SearchQueries {
+  /**
+   * Record a search query and the results it returned
+   */
+  export async function log(data: SearchQueryInput) {
+    return prisma.searchQuery.create({
+      data: {
+        query: data.query,
+        source: data.source,
+        filters: data.filters,
+        resultShortIds: data.resultShortIds,
+        resultCount: data.resultShortIds.length,
+        topSimilarity: data.topSimilarity,
+        latencyMs: data.latencyMs,
+        userId: data.userId,
+        apiKeyId: data.apiKeyId,
+      },
+    });
+  }
+
+  /**
+   * Record that a result of a search was opened
+   * Clicks on recipes that were not in the results are ignored
+   */
+  export async function logClick(searchQueryId: string, shortId: string) {
+    const search = await prisma.searchQuery.findUnique({
+      where: { id: searchQueryId },
+      select: { resultShortIds: true },
+    });
+    const index = search?.resultShortIds.indexOf(shortId) ?? -1;
+    if (index === -1) {
+      return null;
+    }
+
+    return prisma.searchClick.create({
+      data: { searchQueryId, shortId, position: index + 1 },
+    });
+  }
+
+  /**
+   * Record a recipe fetched by an agent as a click-through of its latest search that returned the recipe
+   */
+  export async function logMcpFetch(shortId: string, apiKeyId?: string) {
+    const search = await prisma.searchQuery.findFirst({
+      where: {
+        source: "mcp",
+        apiKeyId: apiKeyId ?? null,
+        resultShortIds: { has: shortId },
+        createdAt: { gte: new Date(Date.now() - MCP_CLICK_WINDOW_MS) },
+      },
+      orderBy: { createdAt: "desc" },
+      select: { id: true, resultShortIds: true, clicks: { where: { shortId }, select: { id: true } } },
+    });
+    // Fetching the same recipe again is not another click-through
+    if (!search || search.clicks.length > 0) {
+      return null;
+    }
+
+    return prisma.searchClick.create({
+      data: { searchQueryId: search.id, shortId, position: search.resultShortIds.indexOf(shortId) + 1 },
+    });
+  }
+
+  /**
+   * Get search counts, zero-result counts and click-through rates per source since a date
+   */
+  export async function getSummary(since: Date) {
+    return prisma.$queryRaw<
+      Array<{
+        source: string;
+        searches: number;
+        zeroResults: number;
+        clickedSearches: number;
+        averageLatencyMs: number;
+      }>
+    >`
+      SELECT
+        q.source,
+        COUNT(*)::int AS searches,
+        COUNT(*) FILTER (WHERE q."resultCount" = 0)::int AS "zeroResults",
+        COUNT(*) FILTER (WHERE EXISTS (SELECT 1 FROM "SearchClick" c WHERE c."searchQueryId" = q.id))::int AS "clickedSearches",
+        ROUND(AVG(q."latencyMs"))::int AS "averageLatencyMs"
+      FROM "SearchQuery" q
+      WHERE q."createdAt" >= ${since}
+      GROUP BY q.source
+      ORDER BY q.source ASC
+    `;
+  }
+
+  /**
+   * Get the most frequent queries since a date, queries are grouped case-insensitively
+   */
+  export async function getTopQueries(since: Date, limit = 20) {
+    return prisma.$queryRaw<
+      Array<{ query: string; count: number; averageResults: number; clicks: number; lastSearchedAt: Date }>
+    >`
+      SELECT
+        lower(trim(q.query)) AS query,
+        COUNT(*)::int AS count,
+        ROUND(AVG(q."resultCount"), 1)::float AS "averageResults",
+        COALESCE(SUM((SELECT COUNT(*) FROM "SearchClick" c WHERE c."searchQueryId" = q.id)), 0)::int AS clicks,
+        MAX(q."createdAt") AS "lastSearchedAt"
+      FROM "SearchQuery" q
+      WHERE q."createdAt" >= ${since}
+      GROUP BY lower(trim(q.query))
+      ORDER BY count DESC, "lastSearchedAt" DESC
+      LIMIT ${limit}
+    `;
+  }
+
+  /**
+   * Get queries that returned no results since a date
+   */
+  export async function getZeroResultQueries(since: Date, limit = 20) {
+    return prisma.$queryRaw<Array<{ query: string; count: number; lastSearchedAt: Date }>>`
+      SELECT lower(trim(query)) AS query, COUNT(*)::int AS count, MAX("createdAt") AS "lastSearchedAt"
+      FROM "SearchQuery"
+      WHERE "resultCount" = 0
+        AND "createdAt" >= ${since}
+      GROUP BY lower(trim(query))
+      ORDER BY count DESC, "lastSearchedAt" DESC
+      LIMIT ${limit}
+    `;
+  }
+
+  /**
+   * Get queries that found recipes, but none of them close to the query
+   * These are usually answered by keyword matches only, or by a recipe that is only loosely related
+   */
+  export async function getLowSimilarityQueries(since: Date, maxSimilarity = 0.5, limit = 20) {
+    return prisma.$queryRaw<Array<{ query: string; count: number; bestSimilarity: number; lastSearchedAt: Date }>>`
+      SELECT
+        lower(trim(query)) AS query,
+        COUNT(*)::int AS count,
+        MAX(COALESCE("topSimilarity", 0))::float AS "bestSimilarity",
+        MAX("createdAt") AS "lastSearchedAt"
+      FROM "SearchQuery"
+      WHERE "resultCount" > 0
+        AND COALESCE("topSimilarity", 0) < ${maxSimilarity}
+        AND "createdAt" >= ${since}
+      GROUP BY lower(trim(query))
+      ORDER BY count DESC, "lastSearchedAt" DESC
+      LIMIT ${limit}
+    `;
+  }
+}
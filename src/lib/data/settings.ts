@@ -11,7 +11,114 @@ export const settingsConfigSchema = z.object({
   OPENAI_API_KEY: z
     .string()
     .default("")
-    .describe("The API key for the OpenAI API (Used for content summarization and vector embeddings)"),
+    .describe("The API key for the OpenAI API (Used when a provider is set to openai)"),
+  OPENAI_REQUESTS_PER_MINUTE: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .default(0)
+    .describe("Maximum requests per minute to the OpenAI API from each process (0 means no limit)"),
+  SUMMARY_PROVIDER: z
+    .string()
+    .default("openai")
+    .describe("The AI provider for recipe summaries: openai, azure, anthropic or openai-compatible"),
+  SUMMARY_MODEL: z
+    .string()
+    .default("gpt-4o-mini")
+    .describe("The model used for recipe summaries (the deployment name for Azure OpenAI)"),
+  EMBEDDING_PROVIDER: z
+    .string()
+    .default("openai")
+    .describe("The AI provider for vector embeddings: openai, azure, openai-compatible or local"),
+  EMBEDDING_MODEL: z
+    .string()
+    .default("text-embedding-3-small")
+    .describe(
+      "The model used for vector embeddings (the deployment name for Azure OpenAI, e.g. Xenova/all-MiniLM-L6-v2 for local)",
+    ),
+  AZURE_OPENAI_API_KEY: z.string().default("").describe("The API key for Azure OpenAI"),
+  AZURE_OPENAI_RESOURCE_NAME: z
+    .string()
+    .default("")
+    .describe("The Azure OpenAI resource name, as in https://{resource}.openai.azure.com"),
+  AZURE_OPENAI_REQUESTS_PER_MINUTE: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .default(0)
+    .describe("Maximum requests per minute to Azure OpenAI from each process (0 means no limit)"),
+  ANTHROPIC_API_KEY: z.string().default("").describe("The API key for the Anthropic API (Summaries only)"),
+  ANTHROPIC_REQUESTS_PER_MINUTE: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .default(0)
+    .describe("Maximum requests per minute to the Anthropic API from each process (0 means no limit)"),
+  OPENAI_COMPATIBLE_BASE_URL: z
+    .string()
+    .default("")
+    .describe("The base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 for Ollama"),
+  OPENAI_COMPATIBLE_API_KEY: z
+    .string()
+    .default("")
+    .describe("The API key for the OpenAI-compatible API (Leave empty if the server does not need one)"),
+  OPENAI_COMPATIBLE_REQUESTS_PER_MINUTE: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .default(0)
+    .describe("Maximum requests per minute to the OpenAI-compatible API from each process (0 means no limit)"),
+  LOCAL_MODELS_PATH: z
+    .string()
+    .default("")
+    .describe(
+      "Directory with pre-downloaded models for the local embedding provider (Leave empty to download them on first use)",
+    ),
+  SEARCH_VECTOR_WEIGHT: z.coerce
+    .number()
+    .min(0)
+    .default(1)
+    .describe("Weight of semantic (vector) search results when they are merged with full-text results"),
+  SEARCH_TEXT_WEIGHT: z.coerce
+    .number()
+    .min(0)
+    .default(1)
+    .describe("Weight of full-text search results when they are merged with semantic (vector) results"),
+  QUERY_EMBEDDING_CACHE_TTL_HOURS: z.coerce
+    .number()
+    .min(0)
+    .default(168)
+    .describe(
+      "How many hours embeddings of search queries are reused before they are generated again (0 disables the cache)",
+    ),
+  SEARCH_RERANK_TOP_N: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .default(0)
+    .describe("Number of top search results the summary model re-ranks by relevance (0 disables re-ranking)"),
+  QUEUE_MAX_ATTEMPTS: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .default(5)
+    .describe("How many times a queue item is processed before it moves to the dead-letter state"),
+  QUEUE_RETRY_DELAY_SECONDS: z.coerce
+    .number()
+    .min(0)
+    .default(30)
+    .describe("Delay before the first retry of a failed queue item, doubled after every further attempt"),
+  QUEUE_LEASE_TIMEOUT_MINUTES: z.coerce
+    .number()
+    .min(1)
+    .default(15)
+    .describe("How long a queue item may stay processing before it is considered abandoned and retried"),
+  QUEUE_CONCURRENCY: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .default(2)
+    .describe("How many queue items each background process works on at the same time (Applied on restart)"),
 });
 
 export type SettingsConfig = z.infer<typeof settingsConfigSchema>;
@@ -78,6 +185,7 @@ class SettingsManager {
   private static instance: SettingsManager;
   private settings: SettingsConfig = {} as SettingsConfig;
   private isLoaded = false;
+  private refreshIntervalId: NodeJS.Timeout | null = null;
 
   private constructor() {}
 
@@ -96,16 +204,8 @@ class SettingsManager {
     try {
       const dbSettings = await AppSettings.list();
 
-      // Create object with database values
-      const rawSettings: Record<string, string> = {};
-      for (const setting of dbSettings) {
-        if (setting.value !== null) {
-          rawSettings[setting.key] = setting.value;
-        }
-      }
-
       // Parse and validate settings with defaults
-      this.settings = settingsConfigSchema.parse(rawSettings);
+      this.settings = this.parseSettings(dbSettings);
       this.isLoaded = true;
 
       // Populate any missing settings with defaults
@@ -154,6 +254,9 @@ class SettingsManager {
     userId?: string,
   ): Promise<void> {
     try {
+      // Validate first, parsed so values edited as text get the type of the setting
+      const parsedValue = settingsConfigSchema.shape[key].parse(value) as SettingsConfig[K];
+
       // Update database
       await AppSettings.upsert(
         {
@@ -166,7 +269,7 @@ class SettingsManager {
       );
 
       // Update memory
-      this.settings[key] = value;
+      this.settings[key] = parsedValue;
     } catch (error) {
       console.error(`Failed to set setting "${String(key)}":`, error);
       throw error;
@@ -182,9 +285,61 @@ class SettingsManager {
 
   /**
    * Refresh settings from database
+   * Keeps the settings in memory if the database can't be read, so a refresh never falls back to defaults
    */
   public async refresh(): Promise<void> {
-    await this.loadSettings();
+    try {
+      this.settings = this.parseSettings(await AppSettings.list());
+      this.isLoaded = true;
+    } catch (error) {
+      console.error("Failed to refresh settings:", error);
+    }
+  }
+
+  /**
+   * Refresh settings periodically, for processes other than the web app that would otherwise
+   * only see the settings saved before they started
+   */
+  public startAutoRefresh(intervalMs = 30 * 1000): void {
+    this.stopAutoRefresh();
+    this.refreshIntervalId = setInterval(() => {
+      this.refresh();
+    }, intervalMs);
+  }
+
+  /**
+   * Stop refreshing settings periodically
+   */
+  public stopAutoRefresh(): void {
+    if (this.refreshIntervalId) {
+      clearInterval(this.refreshIntervalId);
+      this.refreshIntervalId = null;
+    }
+  }
+
+  /**
+   * Parse setting rows from the database, missing settings get their defaults
+   * Each setting is parsed on its own, so one invalid value only falls back to its own default
+   */
+  private parseSettings(dbSettings: Array<{ key: string; value: string | null }>): SettingsConfig {
+    const rawSettings: Record<string, string> = {};
+    for (const setting of dbSettings) {
+      if (setting.value !== null) {
+        rawSettings[setting.key] = setting.value;
+      }
+    }
+
+    const settings: Record<string, unknown> = {};
+    for (const [key, fieldSchema] of Object.entries(settingsConfigSchema.shape)) {
+      const result = fieldSchema.safeParse(rawSettings[key]);
+      if (result.success) {
+        settings[key] = result.data;
+      } else {
+        console.error(`Invalid value for setting "${key}", using the default:`, result.error.message);
+        settings[key] = fieldSchema.parse(undefined);
+      }
+    }
+    return settings as SettingsConfig;
   }
 
   /**
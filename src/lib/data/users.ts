@@ -9,6 +9,9 @@ import {
 } from "../dataValidators";
 import prisma from "../prisma";
 
+// User that changes made by AI agents (e.g. recipe proposals through MCP) are attributed to
+export const SERVICE_USER_ID = "neural-kitchen-agent";
+
 export namespace Users {
   /**
    * Get all users, ordered by creation date (newest first)
@@ -138,4 +141,24 @@ export namespace Users {
       },
     });
   }
+
+  /**
+   * Get the service user for AI agent changes, creating it on first use
+   * The service user has no account, so it can never be used to log in
+   */
+  export async function getServiceUser() {
+    const now = new Date();
+    return prisma.user.upsert({
+      where: { id: SERVICE_USER_ID },
+      update: {},
+      create: {
+        id: SERVICE_USER_ID,
+        name: "AI Agent",
+        email: "agent@neuralkitchen.local",
+        emailVerified: false,
+        createdAt: now,
+        updatedAt: now,
+      },
+    });
+  }
 }
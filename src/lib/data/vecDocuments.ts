@@ -1,14 +1,22 @@
 import { Prisma } from "~/generated/prisma/client";
 import prisma from "../prisma";
+import { buildSearchFilterSql, type SearchFilters } from "./searchFilters";
+
+export interface VecDocumentChunk {
+  heading: string | null;
+  content: string;
+  embedding: number[];
+}
 
 export namespace VecDocuments {
   /**
-   * Create or update a vector document with embedding
+   * Replace the vector documents of a version with one document per chunk
    */
-  export async function upsert(
+  export async function upsertChunks(
     title: string,
     shortid: string,
-    embedding: number[],
+    chunks: VecDocumentChunk[],
+    embeddingModel: string,
     versionId: string,
     recipeId: string,
     isCurrent = true,
@@ -19,45 +27,35 @@ export namespace VecDocuments {
       await markRecipeVersionsAsNotCurrent(recipeId, userId);
     }
 
-    // Check if a document already exists for this version
-    const existingDoc = await prisma.vecDocument.findFirst({
-      where: {
-        versionId,
-        deletedat: null,
-      },
-    });
-
-    if (existingDoc) {
-      // Update existing document
-      return prisma.$executeRaw`
-        UPDATE "VecDocument" 
-        SET 
-          title = ${title},
-          shortid = ${shortid},
-          embedding = ${JSON.stringify(embedding)}::vector,
-          updatedat = NOW(),
-          "isCurrent" = ${isCurrent},
-          "modifiedBy" = ${userId}
-        WHERE id = ${existingDoc.id}
-      `;
-    } else {
-      // Create new document
-      return prisma.$executeRaw`
-        INSERT INTO "VecDocument" (title, shortid, embedding, "versionId", "recipeId", "isCurrent", createdat, updatedat, "createdBy", "modifiedBy")
-        VALUES (
-          ${title},
-          ${shortid}, 
-          ${JSON.stringify(embedding)}::vector,
-          ${versionId},
-          ${recipeId},
-          ${isCurrent},
-          NOW(),
-          NOW(),
-          ${userId},
-          ${userId}
-        )
-      `;
-    }
+    // Chunks are derived from the version content, so the previous chunks of the version are replaced
+    return prisma.$transaction([
+      prisma.$executeRaw`
+        DELETE FROM "VecDocument"
+        WHERE "versionId" = ${versionId}
+      `,
+      ...chunks.map(
+        (chunk, index) => prisma.$executeRaw`
+          INSERT INTO "VecDocument" (title, shortid, embedding, "embeddingModel", dimensions, "chunkIndex", heading, content, "versionId", "recipeId", "isCurrent", createdat, updatedat, "createdBy", "modifiedBy")
+          VALUES (
+            ${title},
+            ${shortid},
+            ${JSON.stringify(chunk.embedding)}::vector,
+            ${embeddingModel},
+            ${chunk.embedding.length},
+            ${index},
+            ${chunk.heading},
+            ${chunk.content},
+            ${versionId},
+            ${recipeId},
+            ${isCurrent},
+            NOW(),
+            NOW(),
+            ${userId},
+            ${userId}
+          )
+        `,
+      ),
+    ]);
   }
 
   /**
@@ -103,6 +101,7 @@ export namespace VecDocuments {
       WHERE "recipeId" = ${recipeId} 
         AND "isCurrent" = true 
         AND deletedat IS NULL
+      ORDER BY "chunkIndex" ASC
       LIMIT 1
     `;
 
@@ -110,79 +109,93 @@ export namespace VecDocuments {
   }
 
   /**
-   * Perform vector similarity search
-   * Returns the top N most similar documents
+   * Get the embedding of the current version of a recipe and the model that produced it
+   * The embedding is the average of the chunk embeddings, so it represents the whole recipe
    */
-  export async function similaritySearch(queryEmbedding: number[], limit = 10, threshold = 0.3, projectIds?: string[]) {
-    const projectIdsArray = projectIds || [];
+  export async function getCurrentEmbedding(recipeId: string) {
+    const result = await prisma.$queryRaw<Array<{ embedding: string | null; embeddingModel: string | null }>>`
+      SELECT AVG(embedding)::text AS embedding, "embeddingModel"
+      FROM "VecDocument"
+      WHERE "recipeId" = ${recipeId}
+        AND "isCurrent" = true
+        AND deletedat IS NULL
+        AND embedding IS NOT NULL
+      GROUP BY "embeddingModel"
+      ORDER BY MAX(updatedat) DESC
+      LIMIT 1
+    `;
 
-    if (projectIdsArray.length === 0) {
-      const result = await prisma.$queryRaw<
-        Array<{
-          id: number;
-          title: string;
-          shortid: string;
-          versionId: string;
-          recipeId: string;
-          similarity: number;
-        }>
-      >`
-        SELECT 
-          id, 
-          title, 
-          shortid, 
-          "versionId", 
-          "recipeId",
-          1 - (embedding <=> ${JSON.stringify(queryEmbedding)}::vector) as similarity
-        FROM "VecDocument"
-        WHERE deletedat IS NULL 
-          AND "isCurrent" = true
-          AND 1 - (embedding <=> ${JSON.stringify(queryEmbedding)}::vector) > ${threshold}
-        ORDER BY embedding <=> ${JSON.stringify(queryEmbedding)}::vector
-        LIMIT ${limit}
-      `;
+    const document = result[0];
+    if (!document?.embedding) return null;
+    return { embedding: JSON.parse(document.embedding) as number[], embeddingModel: document.embeddingModel };
+  }
 
-      return result;
-    }
+  /**
+   * Perform vector similarity search among documents embedded with the given model
+   * Chunks are scored individually and each recipe is returned once, with its best-matching chunk
+   * Returns the top N most similar recipes
+   */
+  export async function similaritySearch(
+    queryEmbedding: number[],
+    embeddingModel: string,
+    limit = 10,
+    threshold = 0.3,
+    projectIds?: string[],
+    filters: SearchFilters = {},
+  ) {
+    const vector = JSON.stringify(queryEmbedding);
+    const projectIdsArray = projectIds || [];
+    const projectCondition =
+      projectIdsArray.length > 0
+        ? Prisma.sql`AND "versionId" IN (
+            SELECT rv.id 
+            FROM "RecipeVersion" rv
+            INNER JOIN "_RecipeVersionProjects" rvp ON rv.id = rvp."B"
+            INNER JOIN "Project" p ON rvp."A" = p.id
+            WHERE p."shortId" IN(${Prisma.join(projectIdsArray)})
+              AND rv."deletedAt" IS NULL
+              AND p."deletedAt" IS NULL
+          )`
+        : Prisma.empty;
 
-    const result = await prisma.$queryRaw<
+    // Vectors of other models have other dimensions and meaning, so they are filtered before comparing
+    return prisma.$queryRaw<
       Array<{
         id: number;
         title: string;
         shortid: string;
         versionId: string;
         recipeId: string;
+        isCurrent: boolean;
+        heading: string | null;
+        content: string | null;
         similarity: number;
       }>
     >`
-      SELECT 
-        id, 
-        title, 
-        shortid, 
-        "versionId", 
-        "recipeId",
-        1 - (embedding <=> ${JSON.stringify(queryEmbedding)}::vector) as similarity
-      FROM "VecDocument"
-      WHERE deletedat IS NULL 
-        AND "isCurrent" = true
-        AND 1 - (embedding <=> ${JSON.stringify(queryEmbedding)}::vector) > ${threshold}
-        AND (
-          ${projectIdsArray.length} = 0 
-          OR "versionId" IN (
-            SELECT rv.id 
-            FROM "RecipeVersion" rv
-            INNER JOIN "_RecipeVersionProjects" rvp ON rv.id = rvp."B"
-            INNER JOIN "Project" p ON rvp."A" = p.id
-            WHERE p."shortId" IN(${Prisma.join(projectIdsArray.length ? projectIdsArray : ["nope"])})
-              AND rv."deletedAt" IS NULL
-              AND p."deletedAt" IS NULL
-          )
-        )
-      ORDER BY embedding <=> ${JSON.stringify(queryEmbedding)}::vector
+      SELECT *
+      FROM (
+        SELECT DISTINCT ON ("recipeId")
+          id, 
+          title, 
+          shortid, 
+          "versionId", 
+          "recipeId",
+          "isCurrent",
+          heading,
+          content,
+          1 - (embedding <=> ${vector}::vector) as similarity
+        FROM "VecDocument"
+        WHERE deletedat IS NULL 
+          ${filters.includeArchived ? Prisma.empty : Prisma.sql`AND "isCurrent" = true`}
+          AND "embeddingModel" = ${embeddingModel}
+          ${projectCondition}
+          ${buildSearchFilterSql(filters, Prisma.sql`"versionId"`)}
+        ORDER BY "recipeId", embedding <=> ${vector}::vector
+      ) best
+      WHERE similarity > ${threshold}
+      ORDER BY similarity DESC
       LIMIT ${limit}
     `;
-
-    return result;
   }
 
   /**
@@ -210,4 +223,43 @@ export namespace VecDocuments {
       deleted: Number(stats?.deleted || 0),
     };
   }
+
+  /**
+   * Get how many recipes are embedded with the given model, and the models of all current documents
+   * Used to follow the progress of re-embedding after the embedding model changed
+   */
+  export async function getEmbeddingStatus(embeddingModel: string) {
+    const [totals, models] = await Promise.all([
+      prisma.$queryRaw<Array<{ recipes: number; embedded: number }>>`
+        SELECT
+          COUNT(*)::int AS recipes,
+          COUNT(*) FILTER (WHERE EXISTS (
+            SELECT 1
+            FROM "VecDocument" d
+            WHERE d."recipeId" = r.id
+              AND d."versionId" = r."currentVersionId"
+              AND d."embeddingModel" = ${embeddingModel}
+              AND d.deletedat IS NULL
+          ))::int AS embedded
+        FROM "Recipe" r
+        WHERE r."deletedAt" IS NULL
+          AND r."currentVersionId" IS NOT NULL
+      `,
+      prisma.$queryRaw<Array<{ embeddingModel: string | null; dimensions: number | null; count: number }>>`
+        SELECT "embeddingModel", dimensions, COUNT(*)::int AS count
+        FROM "VecDocument"
+        WHERE "isCurrent" = true
+          AND deletedat IS NULL
+        GROUP BY "embeddingModel", dimensions
+        ORDER BY count DESC
+      `,
+    ]);
+
+    return {
+      embeddingModel,
+      recipes: totals[0]?.recipes ?? 0,
+      embedded: totals[0]?.embedded ?? 0,
+      models,
+    };
+  }
 }
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { isSystemPromptKey } from "./prompts";
 
 // Tag validation schema
 export const tagSchema = z.object({
@@ -75,12 +76,38 @@ export const recipeVersionIdSchema = z.object({
 
 export type RecipeVersionIdInput = z.infer<typeof recipeVersionIdSchema>;
 
-// Queue validation schema
+// Accepting a proposal, optionally replacing a current version that changed since it was proposed
+export const acceptProposalSchema = recipeVersionIdSchema.extend({
+  overwrite: z.boolean().optional(),
+});
+
+export type AcceptProposalInput = z.infer<typeof acceptProposalSchema>;
+
+// Queue job types and the payload each type carries
+export const jobTypeSchema = z.enum(["process-recipe", "notify-saved-searches", "reindex-recipes"]);
+
+export type JobType = z.infer<typeof jobTypeSchema>;
+
+// Steps of processing a recipe version, a job runs all of them unless it names the ones to run
+export const recipeProcessingStepSchema = z.enum(["summary", "embedding"]);
+
+export const jobPayloadSchemas = {
+  "process-recipe": z.object({
+    versionId: z.string().min(1, "Version ID is required"),
+    steps: z.array(recipeProcessingStepSchema).optional(),
+  }),
+  "notify-saved-searches": z.object({ versionId: z.string().min(1, "Version ID is required") }),
+  "reindex-recipes": z.object({}),
+} satisfies Record<JobType, z.ZodType>;
+
+export type JobPayload<T extends JobType> = z.infer<(typeof jobPayloadSchemas)[T]>;
+
+// Queue validation schema, versionId and shortid link a job to the recipe version it is about
 export const queueItemSchema = z.object({
   title: z.string().min(1, "Title is required").max(200, "Title must be less than 200 characters"),
-  shortid: z.string().min(1, "Short ID is required").max(50, "Short ID must be less than 50 characters"),
-  versionId: z.string().min(1, "Version ID is required"),
-  status: z.enum(["pending", "processing", "completed", "failed"]).optional().default("pending"),
+  shortid: z.string().max(50, "Short ID must be less than 50 characters").optional(),
+  versionId: z.string().optional(),
+  status: z.enum(["pending", "processing", "completed", "dead", "cancelled"]).optional().default("pending"),
 });
 
 export type QueueItemInput = z.infer<typeof queueItemSchema>;
@@ -175,3 +202,71 @@ export const appSettingSchema = z.object({
 });
 
 export type AppSettingInput = z.infer<typeof appSettingSchema>;
+
+// Agent prompt validation schema (user-defined prompts published through MCP)
+export const agentPromptSchema = z.object({
+  key: z
+    .string()
+    .min(1, "Prompt key is required")
+    .max(100, "Prompt key must be less than 100 characters")
+    .regex(/^[a-zA-Z0-9_-]+$/, "Prompt key can only contain letters, numbers, hyphens, and underscores")
+    .refine((key) => !isSystemPromptKey(key), "Prompt key is reserved for a system prompt"),
+  name: z.string().min(1, "Prompt name is required").max(100, "Prompt name must be less than 100 characters"),
+  description: z.string().max(500, "Prompt description must be less than 500 characters"),
+  content: z.string().min(1, "Prompt content is required"),
+});
+
+export type AgentPromptInput = z.infer<typeof agentPromptSchema>;
+
+// API key validation schema (keys for the MCP server)
+export const apiKeySchema = z.object({
+  name: z.string().min(1, "Key name is required").max(100, "Key name must be less than 100 characters"),
+  projectIds: z.array(z.string()),
+});
+
+export type ApiKeyInput = z.infer<typeof apiKeySchema>;
+
+// API key ID validation schema
+export const apiKeyIdSchema = z.object({
+  apiKeyId: z.string().min(1, "API key ID is required"),
+});
+
+export type ApiKeyIdInput = z.infer<typeof apiKeyIdSchema>;
+
+// Search filter parameters, as used in the /search URL and in saved searches
+export const searchFilterParamsSchema = z.object({
+  projects: z.array(z.string()).optional(),
+  tags: z.array(z.string()).optional(),
+  tagMode: z.enum(["any", "all"]).optional(),
+  author: z.string().optional(),
+  updatedAfter: z.string().date().optional(),
+  updatedBefore: z.string().date().optional(),
+  archived: z.boolean().optional(),
+});
+
+export type SearchFilterParams = z.infer<typeof searchFilterParamsSchema>;
+
+// Saved search validation schema
+export const savedSearchSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be less than 100 characters"),
+  query: z.string().trim().min(1, "Query is required").max(500, "Query must be less than 500 characters"),
+  filters: searchFilterParamsSchema,
+  notify: z.boolean(),
+  notifyThreshold: z.number().min(0, "Threshold must be at least 0").max(1, "Threshold must be at most 1"),
+});
+
+export type SavedSearchInput = z.infer<typeof savedSearchSchema>;
+
+// Saved search ID validation schema
+export const savedSearchIdSchema = z.object({
+  savedSearchId: z.string().min(1, "Saved search ID is required"),
+});
+
+export type SavedSearchIdInput = z.infer<typeof savedSearchIdSchema>;
+
+// Notification ID validation schema
+export const notificationIdSchema = z.object({
+  notificationId: z.string().min(1, "Notification ID is required"),
+});
+
+export type NotificationIdInput = z.infer<typeof notificationIdSchema>;
@@ -0,0 +1,89 @@
+export interface MarkdownHeading {
+  level: number;
+  title: string;
+  /** Line index of the heading */
+  start: number;
+  /** Line index where the heading's subtree ends (exclusive) */
+  end: number;
+}
+
+const HEADING_PATTERN = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Parse the ATX headings of a markdown document, skipping anything inside fenced code blocks
+ */
+export function parseHeadings(content: string): MarkdownHeading[] {
+  const lines = content.split("\n");
+  const headings: MarkdownHeading[] = [];
+  let fence: string | null = null;
+
+  lines.forEach((line, index) => {
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      if (!fence) {
+        fence = fenceMatch[1];
+      } else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+      }
+      return;
+    }
+    if (fence) return;
+
+    const headingMatch = line.match(HEADING_PATTERN);
+    if (headingMatch) {
+      headings.push({ level: headingMatch[1].length, title: headingMatch[2].trim(), start: index, end: lines.length });
+    }
+  });
+
+  // A subtree ends at the next heading of the same or a higher level
+  for (const [index, heading] of headings.entries()) {
+    const next = headings.slice(index + 1).find((other) => other.level <= heading.level);
+    if (next) heading.end = next.start;
+  }
+
+  return headings;
+}
+
+/**
+ * Extract the subtree of the heading matching a path like "Setup > Database"
+ * Each path segment matches a heading title (case-insensitive) nested below the previous one
+ */
+export function extractSection(content: string, path: string): string | null {
+  const segments = path
+    .split(">")
+    .map((segment) => normalizeTitle(segment))
+    .filter(Boolean);
+  if (segments.length === 0) return null;
+
+  const headings = parseHeadings(content);
+  let match: MarkdownHeading | undefined;
+
+  for (const segment of segments) {
+    const parent = match;
+    match = headings.find(
+      (heading) =>
+        (!parent || (heading.start > parent.start && heading.end <= parent.end && heading.level > parent.level)) &&
+        normalizeTitle(heading.title) === segment,
+    );
+    if (!match) return null;
+  }
+
+  if (!match) return null;
+  return content.split("\n").slice(match.start, match.end).join("\n").trim();
+}
+
+/**
+ * Build a nested markdown list of the headings in a document
+ */
+export function buildTableOfContents(content: string): string {
+  const headings = parseHeadings(content);
+  if (headings.length === 0) return "";
+
+  const minLevel = Math.min(...headings.map((heading) => heading.level));
+  return headings.map((heading) => `${"  ".repeat(heading.level - minLevel)}- ${heading.title}`).join("\n");
+}
+
+function normalizeTitle(title: string): string {
+  return title.replace(/[*_`]/g, "").trim().toLowerCase();
+}
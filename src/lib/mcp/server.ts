@@ -0,0 +1,966 @@
+/**
+ * Neural Kitchen MCP server definition
+ * Registers the tools, resources and prompts shared by the HTTP and stdio entry points
+ */
+
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  McpError,
+  type ServerNotification,
+  type ServerRequest,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { type McpToolCallInput, McpToolCalls } from "../data/mcpToolCalls";
+import { Projects } from "../data/projects";
+import { Prompts } from "../data/prompts";
+import { Recipes } from "../data/recipes";
+import type { SearchFilters } from "../data/searchFilters";
+import { SearchQueries } from "../data/searchQueries";
+import { Tags } from "../data/tags";
+import { Users } from "../data/users";
+import { VecDocuments } from "../data/vecDocuments";
+import { buildTableOfContents, extractSection } from "../markdownSections";
+import { extractPromptArguments, fillPromptTemplate, isSystemPromptKey } from "../prompts";
+import { AIService } from "../services/ai";
+import { SearchService } from "../services/search";
+
+const RESOURCE_PAGE_SIZE = 50;
+
+export interface RecipeWatcher {
+  watch: (sessionId: string | undefined, shortId: string, currentVersionId: string | null) => void;
+  unwatch: (sessionId: string | undefined, shortId: string) => void;
+}
+
+export interface McpServerOptions {
+  description: string;
+  instructions: string;
+  // Enables resources/subscribe and is told about every recipe read, so the caller can send update notifications
+  recipeWatcher?: RecipeWatcher;
+}
+
+/**
+ * Load the server description and instructions from the database with fallback to constants
+ */
+export async function loadMcpServerInfo() {
+  const [description, instructions] = await Promise.all([
+    Prompts.getByKey("MCP_SERVER_DESCRIPTION"),
+    Prompts.getByKey("MCP_SERVER_INSTRUCTIONS"),
+  ]);
+  return { description, instructions };
+}
+
+/**
+ * Create an MCP server with all tools, resources and prompts registered
+ * Tool and resource handlers apply the project restrictions of the API key in extra.authInfo, if any
+ */
+export function createMcpServer(options: McpServerOptions) {
+  const server = new McpServer(
+    {
+      name: "Neural Kitchen",
+      version: "0.1.0",
+      description: options.description,
+    },
+    {
+      instructions: options.instructions,
+    },
+  );
+
+  registerTools(server, options);
+  registerResources(server, options);
+  registerPrompts(server);
+
+  if (options.recipeWatcher) {
+    registerSubscriptions(server, options);
+  }
+
+  return server;
+}
+
+/**
+ * Register MCP tools
+ */
+function registerTools(server: McpServer, options: McpServerOptions) {
+  // Get a single recipe by ID or shortId (full content)
+  server.registerTool(
+    "get_recipe",
+    {
+      title: "Get a single recipe by ID or shortId with full content",
+      description: "Get a single recipe by ID or shortId with full content",
+      inputSchema: {
+        identifier: z.string().describe("Recipe ID or shortId to retrieve"),
+        projects: z.array(z.string()).describe("Projects to search for recipes, (optional)").optional(),
+        section: z
+          .string()
+          .describe('Heading path of the section to return, e.g. "Setup > Database" (optional)')
+          .optional(),
+        maxTokens: z
+          .number()
+          .int()
+          .positive()
+          .describe("Approximate token budget; longer content is truncated with a table of contents (optional)")
+          .optional(),
+      },
+    },
+    async (args, extra) => {
+      const startedAt = Date.now();
+      try {
+        console.log("get_recipe", args, extra.authInfo?.clientId);
+        const { identifier, projects, section, maxTokens } = args;
+
+        // Try to get recipe by ID first, then by shortId
+        let recipe = await Recipes.read(identifier);
+        if (!recipe) {
+          recipe = await Recipes.readByShortId(identifier);
+        }
+
+        // Recipes outside the projects of the API key are reported as not found
+        if (!recipe || !recipe.currentVersion || !canAccessProjects(recipe.currentVersion.projects, extra.authInfo)) {
+          recordToolCall(server, extra, { tool: "get_recipe", args, resultShortIds: [], projects, startedAt });
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Recipe not found: ${identifier}`,
+              },
+            ],
+          };
+        }
+
+        // Check if recipe belongs to specified projects (if projects filter is provided)
+        let projectWarning = "";
+        if (projects && projects.length > 0) {
+          const recipeProjectShortIds = recipe.currentVersion.projects?.map((p) => p.shortId) || [];
+          const hasMatchingProject = projects.some((projectShortId) => recipeProjectShortIds.includes(projectShortId));
+
+          if (!hasMatchingProject) {
+            const projectNames = recipe.currentVersion.projects?.map((p) => p.title).join(", ") || "none";
+            projectWarning = `\n\n*Note: This recipe is not associated with the specified projects. Recipe projects: ${projectNames}*`;
+          }
+        }
+
+        options.recipeWatcher?.watch(extra.sessionId, recipe.shortId, recipe.currentVersionId);
+        recordToolCall(server, extra, {
+          tool: "get_recipe",
+          args,
+          resultShortIds: [recipe.shortId],
+          projects,
+          startedAt,
+        });
+        SearchQueries.logMcpFetch(recipe.shortId, extra.authInfo?.clientId).catch((error) => {
+          console.error("Failed to record search click-through:", error);
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${formatRecipeContent(recipe.currentVersion.title, recipe.currentVersion.content, { section, maxTokens })}${projectWarning}`,
+            },
+          ],
+        };
+      } catch (error) {
+        console.error("Error in get_recipe:", error);
+        recordToolCall(server, extra, {
+          tool: "get_recipe",
+          args,
+          resultShortIds: [],
+          projects: args.projects,
+          startedAt,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving recipe: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  // Search recipes using the same logic as the UI
+  server.registerTool(
+    "search_recipes",
+    {
+      title: "Search Recipes",
+      description: "Search recipes using semantic and text search with AI summaries",
+      inputSchema: {
+        query: z.string().describe("Search query to find relevant recipes"),
+        projects: z.array(z.string()).describe("Projects to search for recipes, (optional)").optional(),
+        tags: z.array(z.string()).describe("Only return recipes with these tag names (optional)").optional(),
+        tagMode: z
+          .enum(["any", "all"])
+          .describe("Whether recipes need any (default) or all of the given tags (optional)")
+          .optional(),
+        author: z.string().describe("Only return recipes created by this user, by name or email (optional)").optional(),
+        updatedAfter: z
+          .string()
+          .date()
+          .describe("Only return recipes updated on or after this date, YYYY-MM-DD (optional)")
+          .optional(),
+        updatedBefore: z
+          .string()
+          .date()
+          .describe("Only return recipes updated before this date, YYYY-MM-DD (optional)")
+          .optional(),
+        includeArchived: z
+          .boolean()
+          .describe("Also search older, no longer current versions of recipes (optional)")
+          .optional(),
+      },
+    },
+    async (args, extra) => {
+      const startedAt = Date.now();
+      try {
+        const limit = 10;
+        const { query } = args;
+        console.info("search_recipes", args);
+
+        const projects = scopeProjects(args.projects, extra.authInfo);
+        const filters = await resolveSearchFilters(args);
+
+        // Use hybrid search (vector + text fallback)
+        const { results } =
+          projects?.length === 0
+            ? { results: [] }
+            : await SearchService.loggedSearch(query, limit, projects, filters, {
+                source: "mcp",
+                apiKeyId: extra.authInfo?.clientId,
+              });
+        recordToolCall(server, extra, {
+          tool: "search_recipes",
+          args,
+          resultShortIds: results.map((result) => result.shortid),
+          projects,
+          startedAt,
+        });
+
+        if (results.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No recipes found for query: "${query}"`,
+              },
+            ],
+          };
+        }
+
+        // Format results for AI consumption
+        const formattedResults = results
+          .map((result, index) => {
+            const summary = result.summary || "No summary available";
+            const bestMatch = result.section
+              ? `\n   Best match: section "${result.section}" (use get_recipe with this section to read only that part)`
+              : "";
+            const archived = result.isCurrent ? "" : " [archived version]";
+            return `${index + 1}. **${result.title}** (ID: ${result.shortid})${archived}
+   Summary: ${summary}${bestMatch}
+   
+   *This is a short summary. Use get_recipe with ID "${result.shortid}" to get the full content.*`;
+          })
+          .join("\n\n");
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${results.length} recipe(s) for "${query}":\n\n${formattedResults}`,
+            },
+          ],
+        };
+      } catch (error) {
+        console.error("Error in search_recipes:", error);
+        recordToolCall(server, extra, {
+          tool: "search_recipes",
+          args,
+          resultShortIds: [],
+          projects: args.projects,
+          startedAt,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error searching recipes: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  // Find recipes that are semantically close to a given recipe
+  server.registerTool(
+    "related_recipes",
+    {
+      title: "Related Recipes",
+      description: "Find recipes similar to a given recipe, e.g. the deploy recipe that follows a build recipe",
+      inputSchema: {
+        identifier: z.string().describe("ShortId of the recipe to find related recipes for"),
+        limit: z.number().int().min(1).max(20).describe("Maximum number of results (default: 5)").optional(),
+        sharedTags: z.boolean().describe("Only return recipes sharing at least one tag (optional)").optional(),
+        sharedProjects: z.boolean().describe("Only return recipes sharing at least one project (optional)").optional(),
+      },
+    },
+    async (args, extra) => {
+      const startedAt = Date.now();
+      try {
+        const { identifier, limit = 5, sharedTags, sharedProjects } = args;
+        console.info("related_recipes", args);
+
+        const recipe = await Recipes.readByShortId(identifier);
+        if (!recipe || !recipe.currentVersion || !canAccessProjects(recipe.currentVersion.projects, extra.authInfo)) {
+          recordToolCall(server, extra, { tool: "related_recipes", args, resultShortIds: [], startedAt });
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Recipe not found: ${identifier}`,
+              },
+            ],
+          };
+        }
+
+        const document = await VecDocuments.getCurrentEmbedding(recipe.id);
+        if (!document?.embeddingModel) {
+          recordToolCall(server, extra, { tool: "related_recipes", args, resultShortIds: [], startedAt });
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Recipe "${identifier}" has not been embedded yet. Try again after the queue has processed it.`,
+              },
+            ],
+          };
+        }
+
+        // Shared projects narrow the projects the API key may search
+        let projects = scopeProjects(undefined, extra.authInfo);
+        if (sharedProjects) {
+          const recipeProjects = recipe.currentVersion.projects.map((project) => project.shortId);
+          projects = projects ? recipeProjects.filter((shortId) => projects?.includes(shortId)) : recipeProjects;
+        }
+
+        const tagIds = sharedTags ? recipe.currentVersion.tags.map((tag) => tag.id) : undefined;
+        const related =
+          projects?.length === 0 || tagIds?.length === 0
+            ? []
+            : await VecDocuments.similaritySearch(document.embedding, document.embeddingModel, limit, 0.3, projects, {
+                excludeRecipeId: recipe.id,
+                tagIds,
+              });
+
+        recordToolCall(server, extra, {
+          tool: "related_recipes",
+          args,
+          resultShortIds: related.map((result) => result.shortid),
+          projects,
+          startedAt,
+        });
+
+        if (related.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No related recipes found for "${recipe.currentVersion.title}"`,
+              },
+            ],
+          };
+        }
+
+        const formattedResults = related
+          .map(
+            (result, index) =>
+              `${index + 1}. **${result.title}** (ID: ${result.shortid}, similarity: ${Math.round(result.similarity * 100)}%)`,
+          )
+          .join("\n");
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Recipes related to "${recipe.currentVersion.title}":\n\n${formattedResults}\n\n*Use get_recipe with an ID to get the full content.*`,
+            },
+          ],
+        };
+      } catch (error) {
+        console.error("Error in related_recipes:", error);
+        recordToolCall(server, extra, {
+          tool: "related_recipes",
+          args,
+          resultShortIds: [],
+          startedAt,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error finding related recipes: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  // List projects so agents can discover shortIds for the projects filter
+  server.registerTool(
+    "list_projects",
+    {
+      title: "List Projects",
+      description:
+        "List all projects with their shortId, description and recipe count. Use the shortId values for the projects filter of other tools.",
+      inputSchema: {},
+    },
+    async (_args, extra) => {
+      try {
+        const projects = (await Projects.listWithRecipeCounts()).filter((project) =>
+          canAccessProjects([project], extra.authInfo),
+        );
+
+        if (projects.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "No projects found",
+              },
+            ],
+          };
+        }
+
+        const formattedProjects = projects
+          .map((project) => {
+            const description = project.description || "No description available";
+            return `- **${project.title}** (shortId: ${project.shortId})
+  Description: ${description}
+  Recipes: ${project._count.recipeVersions}`;
+          })
+          .join("\n");
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${projects.length} project(s):\n\n${formattedProjects}`,
+            },
+          ],
+        };
+      } catch (error) {
+        console.error("Error in list_projects:", error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error listing projects: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  // Propose a new recipe; it stays a draft until a human accepts it in the web UI
+  server.registerTool(
+    "propose_recipe",
+    {
+      title: "Propose Recipe",
+      description:
+        "Propose a new recipe. The recipe is saved as a draft and only becomes available after a human accepts it in review.",
+      inputSchema: {
+        shortId: z.string().describe("Unique recipe ID (letters, numbers, hyphens and underscores)"),
+        title: z.string().describe("Recipe title"),
+        content: z.string().describe("Full recipe content in markdown"),
+        comment: z.string().describe("Why this recipe is proposed, shown to the reviewer (optional)").optional(),
+        tags: z.array(z.string()).describe("Names of existing tags (optional)").optional(),
+        projects: z.array(z.string()).describe("ShortIds of existing projects (optional)").optional(),
+      },
+    },
+    async (args, extra) => {
+      try {
+        console.info("propose_recipe", { shortId: args.shortId, title: args.title });
+        const projects = scopeProjects(args.projects, extra.authInfo);
+        if (projects?.length === 0) {
+          throw new Error("This API key does not have access to the requested projects");
+        }
+
+        const { tagIds, projectIds } = await resolveTagsAndProjects(args.tags, projects);
+        const serviceUser = await Users.getServiceUser();
+
+        const { recipe } = await Recipes.propose(
+          { shortId: args.shortId, title: args.title },
+          { title: args.title, content: args.content, comment: args.comment, tagIds, projectIds },
+          serviceUser.id,
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Proposed recipe "${recipe.title}" (ID: ${recipe.shortId}). It is pending review and will become available once accepted.`,
+            },
+          ],
+        };
+      } catch (error) {
+        console.error("Error in propose_recipe:", error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error proposing recipe: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  // Propose an edit to an existing recipe; the current version stays unchanged until the edit is accepted
+  server.registerTool(
+    "propose_recipe_edit",
+    {
+      title: "Propose Recipe Edit",
+      description:
+        "Propose changes to an existing recipe. The edit is saved as a draft version and only becomes current after a human accepts it in review.",
+      inputSchema: {
+        identifier: z.string().describe("Recipe ID or shortId to edit"),
+        title: z.string().describe("New recipe title (optional, defaults to the current title)").optional(),
+        content: z.string().describe("Full updated recipe content in markdown"),
+        comment: z.string().describe("What changed and why, shown to the reviewer (optional)").optional(),
+      },
+    },
+    async (args, extra) => {
+      try {
+        console.info("propose_recipe_edit", { identifier: args.identifier });
+        const { identifier } = args;
+
+        let recipe = await Recipes.read(identifier);
+        if (!recipe) {
+          recipe = await Recipes.readByShortId(identifier);
+        }
+
+        if (!recipe || !recipe.currentVersion || !canAccessProjects(recipe.currentVersion.projects, extra.authInfo)) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Recipe not found: ${identifier}`,
+              },
+            ],
+          };
+        }
+
+        const serviceUser = await Users.getServiceUser();
+        const version = await Recipes.proposeEdit(
+          recipe.id,
+          {
+            title: args.title || recipe.currentVersion.title,
+            content: args.content,
+            comment: args.comment,
+            // Tags and projects are kept from the current version
+            tagIds: recipe.currentVersion.tags.map((tag) => tag.id),
+            projectIds: recipe.currentVersion.projects.map((project) => project.id),
+          },
+          serviceUser.id,
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Proposed ${version.versionId} of "${recipe.title}" (ID: ${recipe.shortId}). It is pending review and will become current once accepted.`,
+            },
+          ],
+        };
+      } catch (error) {
+        console.error("Error in propose_recipe_edit:", error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error proposing recipe edit: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+        };
+      }
+    },
+  );
+}
+
+/**
+ * Record a tool call for usage telemetry
+ * Failures are only logged, so telemetry never affects the tool result
+ */
+function recordToolCall(
+  server: McpServer,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  call: Omit<McpToolCallInput, "latencyMs" | "apiKeyId" | "clientName"> & { startedAt: number },
+) {
+  const { startedAt, ...data } = call;
+
+  McpToolCalls.log({
+    ...data,
+    latencyMs: Date.now() - startedAt,
+    apiKeyId: extra.authInfo?.clientId,
+    // A stateless HTTP server is shared by all clients, so the client name is only reliable with a session or stdio
+    clientName: extra.sessionId || !extra.authInfo ? server.server.getClientVersion()?.name : undefined,
+  }).catch((error) => {
+    console.error("Failed to record MCP tool call:", error);
+  });
+}
+
+/**
+ * Format recipe content for get_recipe, narrowed to a section and/or a token budget
+ */
+function formatRecipeContent(title: string, content: string, options: { section?: string; maxTokens?: number }) {
+  let body = content;
+  let heading = `# ${title}`;
+
+  if (options.section) {
+    const extracted = extractSection(content, options.section);
+    if (extracted === null) {
+      const toc = buildTableOfContents(content);
+      return `${heading}\n\nSection not found: ${options.section}\n\n${toc ? `Available sections:\n${toc}` : "This recipe has no sections."}`;
+    }
+    body = extracted;
+    heading = `# ${title} > ${options.section}`;
+  }
+
+  const text = `${heading}\n\n${body}`;
+  if (!options.maxTokens || AIService.estimateTokens(text) <= options.maxTokens) {
+    return text;
+  }
+
+  // Keep the table of contents so the agent can ask for the sections it needs
+  const toc = buildTableOfContents(body);
+  const note = `*Truncated to about ${options.maxTokens} tokens. Use the section argument with a heading path to read a specific part.*`;
+  const footer = `\n\n---\n${note}${toc ? `\n\nTable of contents:\n${toc}` : ""}`;
+  const budget = Math.max(options.maxTokens - AIService.estimateTokens(heading + footer), 0);
+
+  return `${heading}\n\n${AIService.truncateToTokens(body, budget)}${footer}`;
+}
+
+/**
+ * Resolve tag names and project shortIds given by an agent to their IDs
+ */
+async function resolveTagsAndProjects(tagNames: string[] = [], projectShortIds: string[] = []) {
+  const [tags, projects] = await Promise.all([Tags.list(), Projects.list()]);
+
+  const tagIds = tagNames.map((name) => {
+    const tag = tags.find((t) => t.name.toLowerCase() === name.toLowerCase());
+    if (!tag) {
+      throw new Error(`Tag not found: ${name}`);
+    }
+    return tag.id;
+  });
+
+  const projectIds = projectShortIds.map((shortId) => {
+    const project = projects.find((p) => p.shortId === shortId);
+    if (!project) {
+      throw new Error(`Project not found: ${shortId}. Use list_projects to see available projects.`);
+    }
+    return project.id;
+  });
+
+  return { tagIds, projectIds };
+}
+
+/**
+ * Resolve the search filters given by an agent, tags and author are looked up by name
+ */
+async function resolveSearchFilters(args: {
+  tags?: string[];
+  tagMode?: "any" | "all";
+  author?: string;
+  updatedAfter?: string;
+  updatedBefore?: string;
+  includeArchived?: boolean;
+}): Promise<SearchFilters> {
+  const { tagIds } = await resolveTagsAndProjects(args.tags);
+
+  let authorId: string | undefined;
+  if (args.author) {
+    const name = args.author.toLowerCase();
+    const users = await Users.list();
+    const author = users.find((user) => user.email.toLowerCase() === name || user.name.toLowerCase() === name);
+    if (!author) {
+      throw new Error(`Author not found: ${args.author}`);
+    }
+    authorId = author.id;
+  }
+
+  return {
+    tagIds,
+    tagMode: args.tagMode,
+    authorId,
+    updatedAfter: args.updatedAfter ? new Date(args.updatedAfter) : undefined,
+    updatedBefore: args.updatedBefore ? new Date(args.updatedBefore) : undefined,
+    includeArchived: args.includeArchived,
+  };
+}
+
+/**
+ * Register MCP resources
+ */
+function registerResources(server: McpServer, options: McpServerOptions) {
+  // Browse projects and the recipes associated with them
+  server.registerResource(
+    "project",
+    new ResourceTemplate("neuralkitchen://project/{shortId}", {
+      list: async (extra) => ({ resources: await listProjectResources(extra.authInfo) }),
+    }),
+    {
+      title: "Project",
+      description: "A project and the recipes associated with it",
+      mimeType: "text/markdown",
+    },
+    async (uri, { shortId }, extra) => {
+      const projectShortId = Array.isArray(shortId) ? shortId[0] : shortId;
+      const project = await Projects.readByShortId(projectShortId);
+
+      if (!project || !canAccessProjects([project], extra.authInfo)) {
+        throw new Error(`Project not found: ${projectShortId}`);
+      }
+
+      const versions = await Recipes.listCurrentByProject(project.shortId);
+      const recipeList =
+        versions.length > 0
+          ? versions.map((version) => `- **${version.title}** (ID: ${version.recipe.shortId})`).join("\n")
+          : "No recipes are associated with this project yet.";
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "text/markdown",
+            text: `# ${project.title}\n\n${project.description ? `${project.description}\n\n` : ""}## Recipes\n\n${recipeList}`,
+          },
+        ],
+      };
+    },
+  );
+
+  // Current recipe versions, optionally pinned to a version with "@vN" (e.g. neuralkitchen://recipe/my-recipe@v2)
+  server.registerResource(
+    "recipe",
+    new ResourceTemplate("neuralkitchen://recipe/{shortId}", { list: undefined }),
+    {
+      title: "Recipe",
+      description: "A recipe with full markdown content. Append @vN to the shortId to read a specific version.",
+      mimeType: "text/markdown",
+    },
+    async (uri, { shortId }, extra) => {
+      const identifier = Array.isArray(shortId) ? shortId[0] : shortId;
+      const versionMatch = identifier.match(/^(.+)@v(\d+)$/);
+      const recipeShortId = versionMatch ? versionMatch[1] : identifier;
+
+      const recipe = await Recipes.readByShortId(recipeShortId);
+      if (!recipe || !recipe.currentVersion) {
+        throw new McpError(ErrorCode.InvalidParams, `Recipe not found: ${recipeShortId}`);
+      }
+
+      // Access is checked against the projects of the version being read, pinned or current
+      const version = versionMatch
+        ? await Recipes.getVersionByNumber(recipe.id, Number.parseInt(versionMatch[2], 10))
+        : recipe.currentVersion;
+      if (!version || !canAccessProjects(version.projects, extra.authInfo)) {
+        throw new McpError(ErrorCode.InvalidParams, `Recipe version not found: ${identifier}`);
+      }
+
+      // Pinned versions never change, so only unpinned reads are watched for updates
+      if (!versionMatch) {
+        options.recipeWatcher?.watch(extra.sessionId, recipe.shortId, recipe.currentVersionId);
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "text/markdown",
+            text: `# ${version.title}\n\n${version.content}`,
+          },
+        ],
+      };
+    },
+  );
+
+  // Replace the default resources/list handler so recipes can be paged with a cursor
+  server.server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) => {
+    const cursor = request.params?.cursor;
+    const page = cursor ? Number.parseInt(cursor, 10) : 1;
+
+    if (!Number.isInteger(page) || page < 1) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+    }
+
+    const [projectResources, { recipes, totalPages }] = await Promise.all([
+      page === 1 ? listProjectResources(extra.authInfo) : Promise.resolve([]),
+      Recipes.list({
+        page,
+        pageSize: RESOURCE_PAGE_SIZE,
+        projectShortIds: getAllowedProjects(extra.authInfo),
+      }),
+    ]);
+
+    const recipeResources = recipes
+      .filter((recipe) => recipe.currentVersion)
+      .map((recipe) => ({
+        uri: `neuralkitchen://recipe/${recipe.shortId}`,
+        name: recipe.shortId,
+        title: recipe.currentVersion?.title ?? recipe.title,
+        description: `Current version: ${recipe.currentVersion?.versionId}`,
+        mimeType: "text/markdown",
+      }));
+
+    return {
+      resources: [...projectResources, ...recipeResources],
+      nextCursor: page < totalPages ? String(page + 1) : undefined,
+    };
+  });
+}
+
+/**
+ * Register MCP prompts
+ * Prompts are read from the database on every request so edits in the web UI are picked up immediately
+ */
+function registerPrompts(server: McpServer) {
+  server.server.registerCapabilities({ prompts: {} });
+
+  server.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    const prompts = await Prompts.listAgentPrompts();
+    return {
+      prompts: prompts.map((prompt) => ({
+        name: prompt.key,
+        title: prompt.name,
+        description: prompt.description || undefined,
+        arguments: extractPromptArguments(prompt.content).map((name) => ({ name, required: true })),
+      })),
+    };
+  });
+
+  server.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args = {} } = request.params;
+    const prompt = isSystemPromptKey(name) ? null : await Prompts.getRecordByKey(name);
+
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt not found: ${name}`);
+    }
+
+    const missingArguments = extractPromptArguments(prompt.content).filter((arg) => args[arg] === undefined);
+    if (missingArguments.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required arguments: ${missingArguments.join(", ")}`);
+    }
+
+    return {
+      description: prompt.description || undefined,
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: fillPromptTemplate(prompt.content, args),
+          },
+        },
+      ],
+    };
+  });
+}
+
+/**
+ * Build the resource listing entries for all projects
+ */
+async function listProjectResources(authInfo?: AuthInfo) {
+  const projects = await Projects.listWithRecipeCounts();
+  return projects
+    .filter((project) => canAccessProjects([project], authInfo))
+    .map((project) => ({
+      uri: `neuralkitchen://project/${project.shortId}`,
+      name: project.shortId,
+      title: project.title,
+      description: project.description || `${project._count.recipeVersions} recipe(s)`,
+      mimeType: "text/markdown",
+    }));
+}
+
+/**
+ * Register resources/subscribe and resources/unsubscribe for recipe resources (when a recipe watcher is given)
+ */
+function registerSubscriptions(server: McpServer, options: McpServerOptions) {
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    const shortId = parseRecipeUri(request.params.uri);
+    const recipe = shortId ? await Recipes.readByShortId(shortId) : null;
+
+    if (!recipe || !recipe.currentVersion || !canAccessProjects(recipe.currentVersion.projects, extra.authInfo)) {
+      throw new McpError(ErrorCode.InvalidParams, `Only recipe resources can be subscribed to: ${request.params.uri}`);
+    }
+
+    options.recipeWatcher?.watch(extra.sessionId, recipe.shortId, recipe.currentVersionId);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request, extra) => {
+    const shortId = parseRecipeUri(request.params.uri);
+    if (shortId) {
+      options.recipeWatcher?.unwatch(extra.sessionId, shortId);
+    }
+    return {};
+  });
+}
+
+/**
+ * Get the recipe shortId from an unpinned recipe resource URI
+ */
+function parseRecipeUri(uri: string) {
+  const match = uri.match(/^neuralkitchen:\/\/recipe\/([^@/]+)$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Get the project shortIds the API key of a request is restricted to
+ * Returns undefined when the key has access to all projects
+ */
+function getAllowedProjects(authInfo?: AuthInfo) {
+  const allowedProjects = authInfo?.extra?.allowedProjects;
+  return Array.isArray(allowedProjects) ? (allowedProjects as string[]) : undefined;
+}
+
+/**
+ * Check whether the API key of a request may access something associated with the given projects
+ */
+function canAccessProjects(projects: { shortId: string }[], authInfo?: AuthInfo) {
+  const allowedProjects = getAllowedProjects(authInfo);
+  return !allowedProjects || projects.some((project) => allowedProjects.includes(project.shortId));
+}
+
+/**
+ * Narrow the projects requested by a client to the projects its API key is restricted to
+ * An empty result means none of the requested projects are accessible
+ */
+function scopeProjects(requestedProjects: string[] | undefined, authInfo?: AuthInfo) {
+  const allowedProjects = getAllowedProjects(authInfo);
+  if (!allowedProjects) {
+    return requestedProjects;
+  }
+
+  if (!requestedProjects || requestedProjects.length === 0) {
+    return allowedProjects;
+  }
+
+  return requestedProjects.filter((shortId) => allowedProjects.includes(shortId));
+}
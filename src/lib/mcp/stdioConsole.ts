@@ -0,0 +1,9 @@
+/**
+ * Route console output to stderr
+ * With the stdio transport stdout carries the MCP protocol, so anything else written to it breaks the connection.
+ * Import this before anything that may log (including dotenv).
+ */
+
+console.log = console.error;
+console.info = console.error;
+console.debug = console.error;
@@ -36,7 +36,22 @@ The recipe, cookbook, or procedure is written in a way that is easy to understan
 
 When you know the name of the recipe, cookbook, or procedure you want to use, you can use the get_recipe tool to read the recipe, cookbook, or procedure.
 
+After reading a recipe, you can use the related_recipes tool to find the recipes that usually come before or after it.
+
 You should follow these recipes when there is one available, it will help you complete the task. Always search for a recipe before starting a new task.`,
+
+  SEARCH_RERANK_SYSTEM: `You rank search results of development recipes by how well they answer a search query.
+
+You get the query and a numbered list of recipes with their title and summary.
+Reply with the numbers of the recipes, most relevant first, separated by commas, e.g. "3, 1, 2".
+Include every number exactly once and reply with nothing else.`,
+
+  SEARCH_ANSWER_SYSTEM: `You answer questions about development tasks using only the numbered recipes you are given.
+
+1. Answer in markdown, short and to the point
+2. Cite the recipes you use with their number in square brackets, e.g. [1] or [2][3], right after the statement they support
+3. Only use information from the recipes, if they do not answer the question say so
+4. Do not add a list of sources at the end, they are shown separately`,
 } as const;
 
 export const PROMPT_METADATA = {
@@ -60,6 +75,38 @@ export const PROMPT_METADATA = {
     description:
       "Detailed instructions for AI agents on how to use Neural Kitchen recipes effectively through the MCP interface.",
   },
+  SEARCH_RERANK_SYSTEM: {
+    title: "Search Re-rank System Prompt",
+    description:
+      "System instructions for AI when re-ranking the top search results. The reply must be the result numbers in order of relevance.",
+  },
+  SEARCH_ANSWER_SYSTEM: {
+    title: "Search Answer System Prompt",
+    description:
+      "System instructions for AI when answering a question in Ask mode on the search page. Controls how sources are cited.",
+  },
 } as const;
 
 export type PromptKey = keyof typeof DEFAULT_PROMPTS;
+
+/**
+ * Check whether a prompt key belongs to one of the built-in system prompts
+ */
+export function isSystemPromptKey(key: string): key is PromptKey {
+  return Object.hasOwn(DEFAULT_PROMPTS, key);
+}
+
+/**
+ * Extract the unique {placeholder} argument names from a prompt template, in order of appearance
+ */
+export function extractPromptArguments(content: string): string[] {
+  const names = [...content.matchAll(/\{([a-zA-Z_][a-zA-Z0-9_]*)\}/g)].map((match) => match[1]);
+  return [...new Set(names)];
+}
+
+/**
+ * Replace every {placeholder} in a prompt template with the matching argument value
+ */
+export function fillPromptTemplate(content: string, args: Record<string, string>): string {
+  return content.replace(/\{([a-zA-Z_][a-zA-Z0-9_]*)\}/g, (placeholder, name: string) => args[name] ?? placeholder);
+}
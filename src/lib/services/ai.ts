@@ -1,35 +1,20 @@
-import { openai } from "@ai-sdk/openai";
-import { embed, generateText } from "ai";
+import { embed, embedMany, generateText, streamText } from "ai";
 import { Prompts } from "../data/prompts";
-import { Settings } from "../data/settings";
-
-// Lazy-initialized OpenAI client for AI SDK
-let openaiClient: typeof openai | null = null;
-
-function getOpenAIClient() {
-  if (!openaiClient) {
-    const apiKey = Settings.get("OPENAI_API_KEY");
-    if (!apiKey) {
-      throw new Error("OPENAI_API_KEY setting is not configured");
-    }
-    openaiClient = openai;
-  }
-  return openaiClient;
-}
+import { AIProviders } from "./aiProviders";
 
 export namespace AIService {
   /**
    * Simple token estimation - approximately 4 characters per token for English text
    * This is a rough approximation since proper tokenization requires the specific model's tokenizer
    */
-  function estimateTokens(text: string): number {
+  export function estimateTokens(text: string): number {
     return Math.ceil(text.length / 4);
   }
 
   /**
    * Truncate text to approximately the specified number of tokens
    */
-  function truncateToTokens(text: string, maxTokens: number): string {
+  export function truncateToTokens(text: string, maxTokens: number): string {
     const estimatedTokens = estimateTokens(text);
 
     if (estimatedTokens <= maxTokens) {
@@ -52,18 +37,16 @@ export namespace AIService {
   }
 
   /**
-   * Generate embeddings for text using AI SDK
-   * Using text-embedding-3-small for cost efficiency
+   * Generate embeddings for text with the configured embedding provider
    */
   export async function generateEmbedding(text: string): Promise<number[]> {
     try {
-      const client = getOpenAIClient();
-
       // Truncate text to approximately 6000 tokens to stay well within the 8192 token limit
       const truncatedText = truncateToTokens(text, 6000);
 
+      await AIProviders.waitForEmbeddingRequest();
       const { embedding } = await embed({
-        model: client.embedding("text-embedding-3-small"),
+        model: AIProviders.getEmbeddingModel(),
         value: truncatedText,
       });
 
@@ -78,13 +61,33 @@ export namespace AIService {
     }
   }
 
+  /**
+   * Generate embeddings for several texts at once with the configured embedding provider
+   */
+  export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
+    try {
+      await AIProviders.waitForEmbeddingRequest();
+      const { embeddings } = await embedMany({
+        model: AIProviders.getEmbeddingModel(),
+        values: texts.map((text) => truncateToTokens(text, 6000)),
+      });
+
+      if (embeddings.length !== texts.length) {
+        throw new Error("Not all embeddings were generated by AI service");
+      }
+
+      return embeddings;
+    } catch (error) {
+      console.error("Error generating embeddings:", error);
+      throw new Error(`Failed to generate embeddings: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
   /**
    * Summarize a recipe document using AI SDK
    */
   export async function summarizeRecipe(title: string, content: string): Promise<string> {
     try {
-      const client = getOpenAIClient();
-
       // Get prompts from database with fallback to constants
       const [systemPrompt, userPromptTemplate] = await Promise.all([
         Prompts.getByKey("RECIPE_SUMMARY_SYSTEM"),
@@ -94,8 +97,9 @@ export namespace AIService {
       // Replace placeholders in user prompt
       const userPrompt = userPromptTemplate.replace("{title}", title).replace("{content}", content);
 
+      await AIProviders.waitForSummaryRequest();
       const { text } = await generateText({
-        model: client("gpt-4o-mini"),
+        model: AIProviders.getSummaryModel(),
         system: systemPrompt,
         prompt: userPrompt,
         maxOutputTokens: 2000,
@@ -126,14 +130,13 @@ export namespace AIService {
     },
   ): Promise<string> {
     try {
-      const client = getOpenAIClient();
-
+      await AIProviders.waitForSummaryRequest();
       const { text } = await generateText({
-        model: client(options?.model || "gpt-4o-mini"),
+        model: AIProviders.getSummaryModel(options?.model),
         system: options?.system,
         prompt,
         maxOutputTokens: options?.maxTokens || 1000,
-        temperature: options?.temperature || 0.7,
+        temperature: options?.temperature ?? 0.7,
       });
 
       if (!text) {
@@ -146,4 +149,31 @@ export namespace AIService {
       throw new Error(`Failed to generate text: ${error instanceof Error ? error.message : "Unknown error"}`);
     }
   }
+
+  /**
+   * Stream generated text using AI SDK, the text is available while it is being generated
+   */
+  export async function streamTextCompletion(
+    prompt: string,
+    options?: {
+      system?: string;
+      model?: string;
+      maxTokens?: number;
+      temperature?: number;
+      abortSignal?: AbortSignal;
+    },
+  ) {
+    await AIProviders.waitForSummaryRequest();
+    return streamText({
+      model: AIProviders.getSummaryModel(options?.model),
+      system: options?.system,
+      prompt,
+      maxOutputTokens: options?.maxTokens || 1000,
+      temperature: options?.temperature ?? 0.7,
+      abortSignal: options?.abortSignal,
+      onError: ({ error }) => {
+        console.error("Error streaming text completion:", error);
+      },
+    });
+  }
 }
@@ -0,0 +1,193 @@
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createAzure } from "@ai-sdk/azure";
+import { createOpenAI } from "@ai-sdk/openai";
+import type { EmbeddingModel, LanguageModel } from "ai";
+import { Settings } from "../data/settings";
+import { createLocalEmbeddingModel } from "./localEmbeddings";
+import { RateLimiter } from "./rateLimiter";
+
+export interface AIProvider {
+  id: string;
+  name: string;
+  /** Whether the settings the provider needs are filled in */
+  isConfigured(): boolean;
+  /** Providers without text generation cannot be used for summaries */
+  languageModel?(modelId: string): LanguageModel;
+  /** Providers without embedding support cannot be used for search */
+  embeddingModel?(modelId: string): EmbeddingModel<string>;
+  /** Maximum requests per minute, providers without a limit are not throttled */
+  requestsPerMinute?(): number;
+}
+
+const providers = new Map<string, AIProvider>();
+const rateLimiters = new Map<string, RateLimiter>();
+
+export namespace AIProviders {
+  /**
+   * Register a provider so it can be selected in the settings
+   */
+  export function register(provider: AIProvider) {
+    providers.set(provider.id, provider);
+  }
+
+  /**
+   * Get all registered providers
+   */
+  export function list() {
+    return [...providers.values()];
+  }
+
+  /**
+   * Get a registered provider by ID
+   */
+  export function get(id: string) {
+    const provider = providers.get(id);
+    if (!provider) {
+      throw new Error(`Unknown AI provider "${id}". Available providers: ${[...providers.keys()].join(", ")}`);
+    }
+    return provider;
+  }
+
+  /**
+   * Get the language model used for summaries and text generation
+   * Uses the configured SUMMARY_MODEL unless a model ID is given
+   */
+  export function getSummaryModel(modelId?: string) {
+    const provider = get(Settings.get("SUMMARY_PROVIDER"));
+    if (!provider.languageModel) {
+      throw new Error(`AI provider "${provider.name}" does not support text generation`);
+    }
+    if (!provider.isConfigured()) {
+      throw new Error(`AI provider "${provider.name}" is not configured`);
+    }
+    return provider.languageModel(modelId || Settings.get("SUMMARY_MODEL"));
+  }
+
+  /**
+   * Get the embedding model used for vector search
+   */
+  export function getEmbeddingModel() {
+    const provider = get(Settings.get("EMBEDDING_PROVIDER"));
+    if (!provider.embeddingModel) {
+      throw new Error(`AI provider "${provider.name}" does not support embeddings`);
+    }
+    if (!provider.isConfigured()) {
+      throw new Error(`AI provider "${provider.name}" is not configured`);
+    }
+    return provider.embeddingModel(Settings.get("EMBEDDING_MODEL"));
+  }
+
+  /**
+   * Get the name that identifies the configured embedding model, e.g. openai:text-embedding-3-small
+   * Embeddings are only comparable when they were produced by the same model
+   */
+  export function getEmbeddingModelName() {
+    return `${Settings.get("EMBEDDING_PROVIDER")}:${Settings.get("EMBEDDING_MODEL")}`;
+  }
+
+  /**
+   * Wait until the rate limit of the summary provider allows another request
+   */
+  export function waitForSummaryRequest() {
+    return waitForRequest(get(Settings.get("SUMMARY_PROVIDER")));
+  }
+
+  /**
+   * Wait until the rate limit of the embedding provider allows another request
+   */
+  export function waitForEmbeddingRequest() {
+    return waitForRequest(get(Settings.get("EMBEDDING_PROVIDER")));
+  }
+
+  /**
+   * Check whether the summary provider is known, supports text generation and is configured
+   */
+  export function isSummaryConfigured() {
+    const provider = providers.get(Settings.get("SUMMARY_PROVIDER"));
+    return !!provider?.languageModel && provider.isConfigured();
+  }
+
+  /**
+   * Check whether the embedding provider is known, supports embeddings and is configured
+   */
+  export function isEmbeddingConfigured() {
+    const provider = providers.get(Settings.get("EMBEDDING_PROVIDER"));
+    return !!provider?.embeddingModel && provider.isConfigured();
+  }
+}
+
+// Clients are created on every call so settings refreshed from the database are used right away
+AIProviders.register({
+  id: "openai",
+  name: "OpenAI",
+  isConfigured: () => !!Settings.get("OPENAI_API_KEY") || !!process.env.OPENAI_API_KEY,
+  languageModel: (modelId) => createOpenAIClient()(modelId),
+  embeddingModel: (modelId) => createOpenAIClient().textEmbeddingModel(modelId),
+  requestsPerMinute: () => Settings.get("OPENAI_REQUESTS_PER_MINUTE"),
+});
+
+AIProviders.register({
+  id: "azure",
+  name: "Azure OpenAI",
+  isConfigured: () => !!Settings.get("AZURE_OPENAI_API_KEY") && !!Settings.get("AZURE_OPENAI_RESOURCE_NAME"),
+  // Azure addresses models by deployment name
+  languageModel: (deploymentName) => createAzureClient()(deploymentName),
+  embeddingModel: (deploymentName) => createAzureClient().textEmbeddingModel(deploymentName),
+  requestsPerMinute: () => Settings.get("AZURE_OPENAI_REQUESTS_PER_MINUTE"),
+});
+
+AIProviders.register({
+  id: "anthropic",
+  name: "Anthropic",
+  isConfigured: () => !!Settings.get("ANTHROPIC_API_KEY"),
+  languageModel: (modelId) => createAnthropic({ apiKey: Settings.get("ANTHROPIC_API_KEY") })(modelId),
+  requestsPerMinute: () => Settings.get("ANTHROPIC_REQUESTS_PER_MINUTE"),
+});
+
+AIProviders.register({
+  id: "openai-compatible",
+  name: "OpenAI-compatible (Ollama, LM Studio, ...)",
+  isConfigured: () => !!Settings.get("OPENAI_COMPATIBLE_BASE_URL"),
+  // Most compatible servers only implement the chat completions API
+  languageModel: (modelId) => createOpenAICompatibleClient().chat(modelId),
+  embeddingModel: (modelId) => createOpenAICompatibleClient().textEmbeddingModel(modelId),
+  requestsPerMinute: () => Settings.get("OPENAI_COMPATIBLE_REQUESTS_PER_MINUTE"),
+});
+
+AIProviders.register({
+  id: "local",
+  name: "Local (in-process, offline)",
+  isConfigured: () => true,
+  embeddingModel: (modelId) => createLocalEmbeddingModel(modelId),
+});
+
+// Summaries and embeddings from the same provider share one limit
+function waitForRequest(provider: AIProvider) {
+  const requestsPerMinute = provider.requestsPerMinute?.() ?? 0;
+  let rateLimiter = rateLimiters.get(provider.id);
+  if (!rateLimiter) {
+    rateLimiter = new RateLimiter();
+    rateLimiters.set(provider.id, rateLimiter);
+  }
+  return rateLimiter.acquire(requestsPerMinute);
+}
+
+function createOpenAIClient() {
+  // Without the setting the client falls back to the OPENAI_API_KEY environment variable
+  return createOpenAI({ apiKey: Settings.get("OPENAI_API_KEY") || undefined });
+}
+
+function createAzureClient() {
+  return createAzure({
+    apiKey: Settings.get("AZURE_OPENAI_API_KEY"),
+    resourceName: Settings.get("AZURE_OPENAI_RESOURCE_NAME"),
+  });
+}
+
+function createOpenAICompatibleClient() {
+  return createOpenAI({
+    baseURL: Settings.get("OPENAI_COMPATIBLE_BASE_URL"),
+    // Local servers usually ignore the key, but the client requires one
+    apiKey: Settings.get("OPENAI_COMPATIBLE_API_KEY") || "not-needed",
+  });
+}
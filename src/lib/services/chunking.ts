@@ -0,0 +1,128 @@
+import { parseHeadings } from "../markdownSections";
+import { AIService } from "./ai";
+
+export interface RecipeChunk {
+  /** Heading path of the section the chunk starts in, e.g. "Setup > Database" */
+  heading: string | null;
+  content: string;
+}
+
+interface Section {
+  heading: string | null;
+  level: number;
+  content: string;
+}
+
+const DEFAULT_CHUNK_MAX_TOKENS = 500;
+
+// Splitting never finishes with a budget below one token, so invalid values fall back to the default
+const configuredChunkTokens = Number(process.env.EMBEDDING_CHUNK_TOKENS);
+const CHUNK_MAX_TOKENS =
+  Number.isInteger(configuredChunkTokens) && configuredChunkTokens > 0
+    ? configuredChunkTokens
+    : DEFAULT_CHUNK_MAX_TOKENS;
+
+export namespace Chunking {
+  /**
+   * Split recipe content into heading-aware chunks for embedding
+   * Small subsections are kept together with their parent section, long sections are split at paragraphs
+   */
+  export function chunkRecipe(content: string, maxTokens = CHUNK_MAX_TOKENS): RecipeChunk[] {
+    const chunks: Array<RecipeChunk & { level: number }> = [];
+
+    for (const section of splitSections(content)) {
+      const previous = chunks[chunks.length - 1];
+      const isSubsection = previous && previous.heading !== null && section.level > previous.level;
+
+      if (isSubsection && AIService.estimateTokens(`${previous.content}\n\n${section.content}`) <= maxTokens) {
+        previous.content = `${previous.content}\n\n${section.content}`;
+        continue;
+      }
+
+      for (const piece of splitLongText(section.content, maxTokens)) {
+        chunks.push({ heading: section.heading, level: section.level, content: piece });
+      }
+    }
+
+    // Recipes without content are still embedded by their title
+    if (chunks.length === 0) {
+      return [{ heading: null, content: "" }];
+    }
+    return chunks.map(({ heading, content }) => ({ heading, content }));
+  }
+
+  /**
+   * Build the text that is embedded for a chunk, the title and heading give the chunk its context
+   */
+  export function getEmbeddingText(title: string, chunk: RecipeChunk) {
+    return chunk.heading ? `${title}\n${chunk.heading}\n\n${chunk.content}` : `${title}\n\n${chunk.content}`;
+  }
+}
+
+/**
+ * Split markdown into one section per heading, the text before the first heading is its own section
+ */
+function splitSections(content: string): Section[] {
+  const lines = content.split("\n");
+  const headings = parseHeadings(content);
+  const sections: Section[] = [];
+  const path: Array<{ level: number; title: string }> = [];
+
+  const preamble = lines
+    .slice(0, headings[0]?.start ?? lines.length)
+    .join("\n")
+    .trim();
+  if (preamble) {
+    sections.push({ heading: null, level: 0, content: preamble });
+  }
+
+  headings.forEach((heading, index) => {
+    while (path.length > 0 && path[path.length - 1].level >= heading.level) {
+      path.pop();
+    }
+    path.push({ level: heading.level, title: heading.title });
+
+    const end = headings[index + 1]?.start ?? lines.length;
+    sections.push({
+      heading: path.map((entry) => entry.title).join(" > "),
+      level: heading.level,
+      content: lines.slice(heading.start, end).join("\n").trim(),
+    });
+  });
+
+  return sections;
+}
+
+/**
+ * Split text that is over the token budget at paragraph breaks, paragraphs that are still too long are cut
+ */
+function splitLongText(text: string, maxTokens: number): string[] {
+  if (AIService.estimateTokens(text) <= maxTokens) {
+    return [text];
+  }
+
+  const pieces: string[] = [];
+  let current = "";
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const combined = current ? `${current}\n\n${paragraph}` : paragraph;
+    if (AIService.estimateTokens(combined) <= maxTokens) {
+      current = combined;
+      continue;
+    }
+
+    if (current) pieces.push(current);
+    current = paragraph;
+
+    while (AIService.estimateTokens(current) > maxTokens) {
+      // Breaking at a word can leave nothing with small budgets, the text is then cut mid-word so every piece advances
+      const truncated = AIService.truncateToTokens(current, maxTokens);
+      const piece = truncated.trim() ? truncated : current.slice(0, Math.max(1, maxTokens * 4));
+      pieces.push(piece);
+      current = current.slice(piece.length).trimStart();
+    }
+  }
+
+  if (current) pieces.push(current);
+  return pieces;
+}
@@ -0,0 +1,59 @@
+import type { FeatureExtractionPipeline } from "@huggingface/transformers";
+import type { EmbeddingModel } from "ai";
+import { Settings } from "../data/settings";
+
+// Loaded pipelines per models path and model, loading a model takes seconds so it is only done once
+const pipelines = new Map<string, Promise<FeatureExtractionPipeline>>();
+
+/**
+ * Create an embedding model that runs a sentence-transformers model in-process on the CPU
+ * Models are read from LOCAL_MODELS_PATH when set, so no network access is needed
+ */
+export function createLocalEmbeddingModel(modelId: string): Exclude<EmbeddingModel<string>, string> {
+  return {
+    specificationVersion: "v2",
+    provider: "local",
+    modelId,
+    maxEmbeddingsPerCall: 32,
+    supportsParallelCalls: false,
+    async doEmbed({ values }) {
+      const extractor = await getPipeline(modelId);
+      const output = await extractor(values, { pooling: "mean", normalize: true });
+      return { embeddings: output.tolist() as number[][] };
+    },
+  };
+}
+
+function getPipeline(modelId: string) {
+  const modelsPath = Settings.get("LOCAL_MODELS_PATH");
+  const key = `${modelsPath}:${modelId}`;
+
+  let pipeline = pipelines.get(key);
+  if (!pipeline) {
+    pipeline = loadPipeline(modelId, modelsPath);
+    // Allow a retry after a failed load, e.g. when the model files were missing
+    pipeline.catch(() => pipelines.delete(key));
+    pipelines.set(key, pipeline);
+  }
+  return pipeline;
+}
+
+async function loadPipeline(modelId: string, modelsPath: string): Promise<FeatureExtractionPipeline> {
+  // Imported on first use so the ONNX runtime is only loaded when the local provider is selected
+  const transformers = await import("@huggingface/transformers");
+
+  if (modelsPath) {
+    transformers.env.localModelPath = modelsPath;
+    transformers.env.allowRemoteModels = false;
+  } else {
+    transformers.env.allowRemoteModels = true;
+  }
+
+  console.log(`Loading local embedding model ${modelId}${modelsPath ? ` from ${modelsPath}` : ""}`);
+  // The generic pipeline signature is too complex for the type checker, so narrow it to this task
+  const createPipeline = transformers.pipeline as (
+    task: "feature-extraction",
+    model: string,
+  ) => Promise<FeatureExtractionPipeline>;
+  return createPipeline("feature-extraction", modelId);
+}
@@ -1,91 +1,309 @@
+import { hostname } from "node:os";
+import type { RecipeQueue } from "~/generated/prisma/client";
 import { Queue } from "../data/queue";
 import { Recipes } from "../data/recipes";
 import { Settings } from "../data/settings";
+import { type JobPayload, type JobType, jobPayloadSchemas, jobTypeSchema } from "../dataValidators";
+import { AIProviders } from "./aiProviders";
+import { SearchSubscriptions } from "./searchSubscriptions";
+
+// How often the processor reports its status, renews the leases of its items, refreshes settings
+// and checks whether processing is paused
+const HEARTBEAT_INTERVAL_MS = 5 * 1000;
+
+// How often processing items are checked for an expired lease
+const RECOVERY_INTERVAL_MS = 60 * 1000;
+
+// Retry delays double with every attempt, up to this limit
+const MAX_RETRY_DELAY_SECONDS = 6 * 60 * 60;
+
+/**
+ * Get when a failed item is retried, with exponential backoff on the number of attempts so far
+ */
+function getRetryAt(attempts: number) {
+  const delaySeconds = Math.min(
+    Settings.get("QUEUE_RETRY_DELAY_SECONDS") * 2 ** (attempts - 1),
+    MAX_RETRY_DELAY_SECONDS,
+  );
+  return new Date(Date.now() + delaySeconds * 1000);
+}
+
+export interface JobHandler<T extends JobType> {
+  /** Jobs stay pending while this returns false, e.g. until the AI providers are configured */
+  isReady?(): boolean;
+  /** Process one job, throwing an error fails the attempt */
+  handle(payload: JobPayload<T>, job: RecipeQueue, context: JobContext): Promise<void>;
+}
+
+export interface JobContext {
+  /**
+   * Run independent steps of the job in parallel and track each on the queue item
+   * Steps that completed in an earlier attempt are skipped, the job fails when any step fails
+   */
+  runSteps(steps: Record<string, () => Promise<unknown>>): Promise<void>;
+}
 
 export class QueueProcessor {
-  private intervalId: NodeJS.Timeout | null = null;
-  private isProcessing = false;
+  private handlers = new Map<JobType, JobHandler<JobType>>();
+  private isRunning = false;
+  private isPaused = false;
+  private concurrency = 0;
+  private workers: Promise<void>[] = [];
+  // Items claimed by this processor and not finished yet, their leases are renewed with every heartbeat
+  private activeItems = new Map<string, RecipeQueue>();
+  private heartbeatIntervalId: NodeJS.Timeout | null = null;
+  private recoveryIntervalId: NodeJS.Timeout | null = null;
+  private readonly workerId = `${hostname()}:${process.pid}`;
+  private wakeUps = new Set<() => void>();
+  // How long idle workers wait before they look for new items again
   private readonly intervalMs = process.env.QUEUE_PROCESSOR_INTERVAL_MS
     ? parseInt(process.env.QUEUE_PROCESSOR_INTERVAL_MS)
-    : 500000; // 5000 seconds default
+    : 5000; // 5 seconds default
 
   /**
-   * Start the queue processor
+   * Start the queue processor with QUEUE_CONCURRENCY workers
+   * Workers claim items atomically, so several background processes can share one database
    */
-  start() {
-    if (this.intervalId) {
+  async start() {
+    if (this.isRunning) {
       console.log("Queue processor is already running");
       return;
     }
 
-    // Check for required OpenAI API key setting
-    if (!Settings.get("OPENAI_API_KEY")) {
-      console.error("OPENAI_API_KEY setting is not configured. Queue processor will not start.");
+    // Providers can be configured later in the settings, items stay pending until a heartbeat refreshes them
+    if (!AIProviders.isSummaryConfigured() || !AIProviders.isEmbeddingConfigured()) {
+      console.warn("AI providers are not configured. Queue items will be processed once they are.");
+    }
+
+    this.concurrency = Settings.get("QUEUE_CONCURRENCY");
+    console.log(`Starting queue processor with ${this.concurrency} workers...`);
+    this.isRunning = true;
+
+    // The first heartbeat tells whether processing is paused before any item is claimed
+    await this.sendHeartbeat();
+    this.heartbeatIntervalId = setInterval(() => {
+      this.sendHeartbeat();
+    }, HEARTBEAT_INTERVAL_MS);
+
+    this.recoveryIntervalId = setInterval(() => {
+      this.recoverAbandoned();
+    }, RECOVERY_INTERVAL_MS);
+    this.recoverAbandoned();
+
+    this.workers = Array.from({ length: this.concurrency }, () => this.runWorker());
+  }
+
+  /**
+   * Stop the queue processor, resolves once the items in progress are finished
+   */
+  async stop() {
+    if (!this.isRunning) {
       return;
     }
 
-    console.log("Starting queue processor...");
-    this.intervalId = setInterval(() => {
-      this.processNext();
-    }, this.intervalMs);
+    this.isRunning = false;
+    if (this.heartbeatIntervalId) {
+      clearInterval(this.heartbeatIntervalId);
+      this.heartbeatIntervalId = null;
+    }
+    if (this.recoveryIntervalId) {
+      clearInterval(this.recoveryIntervalId);
+      this.recoveryIntervalId = null;
+    }
+    for (const wakeUp of this.wakeUps) {
+      wakeUp();
+    }
 
-    // Process immediately on start
-    this.processNext();
+    if (this.activeItems.size > 0) {
+      console.log(`Waiting for ${this.activeItems.size} queue item(s) in progress...`);
+    }
+    await Promise.all(this.workers);
+    this.workers = [];
+    await Queue.removeWorker(this.workerId).catch((error) => {
+      console.error("Failed to remove the queue processor status:", error);
+    });
+    console.log("Queue processor stopped");
   }
 
   /**
-   * Stop the queue processor
+   * Process items one after another until the processor is stopped, waiting while the queue is empty
    */
-  stop() {
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
-      console.log("Queue processor stopped");
+  private async runWorker() {
+    while (this.isRunning) {
+      const processed = await this.processNext();
+      if (!processed) {
+        await this.sleep(this.intervalMs);
+      }
     }
   }
 
   /**
-   * Process the next item in the queue
+   * Wait for the given time, or until the processor is stopped
    */
-  private async processNext() {
-    if (this.isProcessing) {
-      // Skip if already processing an item
-      return;
+  private sleep(ms: number) {
+    return new Promise<void>((resolve) => {
+      const wakeUp = () => {
+        clearTimeout(timeoutId);
+        this.wakeUps.delete(wakeUp);
+        resolve();
+      };
+      const timeoutId = setTimeout(wakeUp, ms);
+      this.wakeUps.add(wakeUp);
+    });
+  }
+
+  /**
+   * Report the processor status for the queue dashboard and pick up pause and resume
+   * Settings are refreshed too, so providers and models changed in the web app are used without a restart
+   */
+  private async sendHeartbeat() {
+    await Settings.refresh();
+
+    try {
+      const isPaused = await Queue.isPaused();
+      if (isPaused !== this.isPaused) {
+        console.log(isPaused ? "Queue processing paused" : "Queue processing resumed");
+        this.isPaused = isPaused;
+      }
+
+      await Queue.extendLeases([...this.activeItems.values()], Settings.get("QUEUE_LEASE_TIMEOUT_MINUTES") * 60);
+
+      await Queue.heartbeat({
+        id: this.workerId,
+        hostname: hostname(),
+        pid: process.pid,
+        concurrency: this.concurrency,
+        activeItems: this.activeItems.size,
+      });
+    } catch (error) {
+      console.error("Failed to send queue processor heartbeat:", error);
     }
+  }
 
+  /**
+   * Return items left processing by a crashed or stopped processor to pending
+   */
+  private async recoverAbandoned() {
     try {
-      this.isProcessing = true;
+      const { released, dead } = await Queue.releaseExpiredLeases(Settings.get("QUEUE_MAX_ATTEMPTS"));
+      if (released + dead > 0) {
+        console.warn(`Recovered abandoned queue items: ${released} retried, ${dead} out of attempts`);
+      }
+    } catch (error) {
+      console.error("Failed to recover abandoned queue items:", error);
+    }
+  }
+
+  /**
+   * Register the handler that processes jobs of a type
+   */
+  register<T extends JobType>(type: T, handler: JobHandler<T>) {
+    this.handlers.set(type, handler as JobHandler<JobType>);
+  }
+
+  /**
+   * Claim and process the next item in the queue, returns whether there was an item
+   * Only job types whose handler is ready are claimed, the others stay pending
+   */
+  private async processNext() {
+    if (this.isPaused) {
+      return false;
+    }
+
+    const readyTypes = [...this.handlers.entries()]
+      .filter(([, handler]) => handler.isReady?.() ?? true)
+      .map(([type]) => type);
 
-      // Get the next item from the queue
-      const item = await Queue.popNext();
+    try {
+      const item = await Queue.popNext(Settings.get("QUEUE_LEASE_TIMEOUT_MINUTES") * 60, readyTypes);
 
       if (!item) {
         // No items to process
-        return;
+        return false;
       }
 
-      console.log(`Processing queue item: ${item.title} (${item.versionId})`);
-
+      this.activeItems.set(item.id, item);
       try {
-        // Process the recipe version (generate AI summary and embedding)
-        await Recipes.processRecipeVersion(item.versionId);
-
-        // Mark the queue item as completed
-        await Queue.markCompleted(item.id);
-        console.log(`Completed processing: ${item.title}`);
-      } catch (processError) {
-        console.error(`Failed to process queue item ${item.id}:`, processError);
-        const errorMessage = processError instanceof Error ? processError.message : String(processError);
-        await Queue.markFailed(item.id, errorMessage);
-        throw processError;
+        await this.processItem(item);
+      } finally {
+        this.activeItems.delete(item.id);
       }
+      return true;
     } catch (error) {
       console.error("Error processing queue item:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Process a claimed item with the handler of its job type
+   * Failed attempts are retried with backoff until QUEUE_MAX_ATTEMPTS
+   */
+  private async processItem(item: RecipeQueue) {
+    const maxAttempts = Settings.get("QUEUE_MAX_ATTEMPTS");
+    console.log(`Processing ${item.type} job: ${item.title}, attempt ${item.attempts}/${maxAttempts}`);
+
+    try {
+      const type = jobTypeSchema.parse(item.type);
+      const handler = this.handlers.get(type);
+      if (!handler) {
+        throw new Error(`No handler is registered for job type "${type}"`);
+      }
+
+      await handler.handle(jobPayloadSchemas[type].parse(item.payload), item, {
+        runSteps: (steps) => this.runSteps(item, steps),
+      });
+
+      // Mark the queue item as completed, unless it was released and claimed again in the meantime
+      if (!(await Queue.markCompleted(item))) {
+        console.warn(`Lost the lease of queue item ${item.id}, its result was not recorded`);
+        return;
+      }
+      console.log(`Completed ${item.type} job: ${item.title}`);
+    } catch (processError) {
+      console.error(`Failed to process queue item ${item.id}:`, processError);
+      const errorMessage = processError instanceof Error ? processError.message : String(processError);
+      const retryAt = item.attempts < maxAttempts ? getRetryAt(item.attempts) : null;
+      if (!(await Queue.markFailed(item, errorMessage, retryAt))) {
+        console.warn(`Lost the lease of queue item ${item.id}, its failure was not recorded`);
+        return;
+      }
+
+      if (retryAt) {
+        console.log(`Retrying ${item.title} at ${retryAt.toISOString()}`);
+      } else {
+        console.error(`Queue item ${item.id} moved to the dead-letter state after ${item.attempts} attempts`);
+      }
+    }
+  }
 
-      // If we have an item reference, mark it as failed
-      // This is a simplified error handling - in practice we'd want more robust retry logic
-    } finally {
-      this.isProcessing = false;
+  /**
+   * Run the steps of an item that did not complete yet, failed steps are retried with the item
+   */
+  private async runSteps(item: RecipeQueue, steps: Record<string, () => Promise<unknown>>) {
+    const completedSteps = await Queue.getCompletedSteps(item.id);
+    const remainingSteps = Object.entries(steps).filter(([name]) => !completedSteps.includes(name));
+    await Queue.addSteps(
+      item.id,
+      remainingSteps.map(([name]) => name),
+    );
+
+    const results = await Promise.allSettled(
+      remainingSteps.map(async ([name, run]) => {
+        try {
+          await run();
+          await Queue.markStepCompleted(item.id, name);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          await Queue.markStepFailed(item.id, name, errorMessage);
+          throw new Error(`${name}: ${errorMessage}`);
+        }
+      }),
+    );
+
+    const failures = results.filter((result) => result.status === "rejected");
+    if (failures.length > 0) {
+      throw new Error(failures.map((failure) => failure.reason.message).join("; "));
     }
   }
 
@@ -94,8 +312,12 @@ export class QueueProcessor {
    */
   getStatus() {
     return {
-      isRunning: this.intervalId !== null,
-      isProcessing: this.isProcessing,
+      workerId: this.workerId,
+      isRunning: this.isRunning,
+      isPaused: this.isPaused,
+      isProcessing: this.activeItems.size > 0,
+      activeItems: this.activeItems.size,
+      concurrency: this.concurrency,
       intervalMs: this.intervalMs,
     };
   }
@@ -103,3 +325,54 @@ export class QueueProcessor {
 
 // Create a singleton instance
 export const queueProcessor = new QueueProcessor();
+
+const isAIConfigured = () => AIProviders.isSummaryConfigured() && AIProviders.isEmbeddingConfigured();
+
+queueProcessor.register("process-recipe", {
+  isReady: isAIConfigured,
+  handle: async ({ versionId, steps }, job, { runSteps }) => {
+    // Embed with the model saved in the settings now, not the one at the last heartbeat
+    await Settings.refresh();
+
+    const recipeSteps = {
+      summary: () => Recipes.updateAISummary(versionId),
+      embedding: () => Recipes.updateEmbedding(versionId),
+    };
+
+    // A failed summary does not redo the embedding on retry, and the other way around
+    await runSteps(steps ? Object.fromEntries(steps.map((step) => [step, recipeSteps[step]])) : recipeSteps);
+
+    // Re-processing some steps of a version (e.g. re-embedding) does not make it new to saved searches
+    if (steps) {
+      return;
+    }
+
+    // The version is searchable now, so saved searches can be matched against it
+    await Queue.add(
+      "notify-saved-searches",
+      { versionId },
+      { title: job.title, shortid: job.shortid ?? undefined, versionId, status: "pending" },
+    );
+  },
+});
+
+queueProcessor.register("notify-saved-searches", {
+  // Saved searches are matched with an embedding of their query
+  isReady: () => AIProviders.isEmbeddingConfigured(),
+  handle: async ({ versionId }, job) => {
+    const notified = await SearchSubscriptions.notifyMatches(versionId);
+    if (notified > 0) {
+      console.log(`Sent ${notified} saved search notification(s) for: ${job.title}`);
+    }
+  },
+});
+
+queueProcessor.register("reindex-recipes", {
+  handle: async (_payload, job) => {
+    // A re-index usually follows a change of the embedding model, so it must see that change
+    await Settings.refresh();
+
+    const { count } = await Recipes.enqueueAllCurrentVersions(job.createdBy ?? undefined);
+    console.log(`Queued ${count} recipes for processing`);
+  },
+});
@@ -0,0 +1,36 @@
+const WINDOW_MS = 60 * 1000;
+
+/**
+ * Limits requests to a number per minute within this process, callers wait in order for a free slot
+ */
+export class RateLimiter {
+  private requests: number[] = [];
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Wait until one more request fits within requestsPerMinute, a limit of 0 does not wait
+   */
+  acquire(requestsPerMinute: number) {
+    const turn = this.queue.then(() => this.waitForSlot(requestsPerMinute));
+    this.queue = turn;
+    return turn;
+  }
+
+  private async waitForSlot(requestsPerMinute: number) {
+    if (requestsPerMinute <= 0) {
+      return;
+    }
+
+    while (true) {
+      const now = Date.now();
+      this.requests = this.requests.filter((requestedAt) => requestedAt > now - WINDOW_MS);
+      if (this.requests.length < requestsPerMinute) {
+        this.requests.push(now);
+        return;
+      }
+
+      // Wait until the oldest request in the window is a minute old
+      await new Promise((resolve) => setTimeout(resolve, this.requests[0] + WINDOW_MS - now));
+    }
+  }
+}
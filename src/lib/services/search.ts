@@ -1,6 +1,12 @@
 import { Prisma } from "~/generated/prisma/client";
+import { Prompts } from "../data/prompts";
+import { QueryEmbeddings } from "../data/queryEmbeddings";
+import { buildSearchFilterSql, type SearchFilters } from "../data/searchFilters";
+import { SearchQueries, type SearchSource } from "../data/searchQueries";
+import { Settings } from "../data/settings";
 import { VecDocuments } from "../data/vecDocuments";
 import { AIService } from "./ai";
+import { AIProviders } from "./aiProviders";
 
 export interface SearchResult {
   id: number;
@@ -9,9 +15,24 @@ export interface SearchResult {
   versionId: string;
   recipeId: string;
   similarity: number;
+  /** False when the match is in an archived version of the recipe */
+  isCurrent: boolean;
   summary?: string;
+  /** Heading path of the best-matching section */
+  section?: string;
+  /** Start of the best-matching section, or the full-text matches highlighted in bold */
+  snippet?: string;
+  /** Rank fusion score when results of several searches were merged */
+  score?: number;
 }
 
+const SNIPPET_LENGTH = 300;
+// Reciprocal rank fusion constant, dampens the difference between the top ranks
+const RRF_K = 60;
+// Token budgets per result when the summary model re-ranks results or answers from recipes
+const RERANK_SUMMARY_TOKENS = 200;
+const ANSWER_SOURCE_TOKENS = 1500;
+
 export namespace SearchService {
   /**
    * Perform semantic search using vector embeddings
@@ -21,17 +42,25 @@ export namespace SearchService {
     limit = 10,
     threshold = 0.3,
     projectIds?: string[],
+    filters: SearchFilters = {},
   ): Promise<SearchResult[]> {
     if (!query.trim()) {
       return [];
     }
 
     try {
-      // Generate embedding for the search query
-      const queryEmbedding = await AIService.generateEmbedding(query);
+      const embeddingModel = AIProviders.getEmbeddingModelName();
+      const queryEmbedding = await getQueryEmbedding(query, embeddingModel);
 
-      // Perform vector similarity search
-      const results = await VecDocuments.similaritySearch(queryEmbedding, limit, threshold, projectIds);
+      // Perform vector similarity search, only documents embedded with the same model are comparable
+      const results = await VecDocuments.similaritySearch(
+        queryEmbedding,
+        embeddingModel,
+        limit,
+        threshold,
+        projectIds,
+        filters,
+      );
 
       // Get additional details for each result (including AI summaries)
       const enrichedResults = await Promise.all(
@@ -40,7 +69,6 @@ export namespace SearchService {
           const version = await prisma.recipeVersion.findFirst({
             where: {
               id: result.versionId,
-              isCurrent: true,
               deletedAt: null,
             },
             select: {
@@ -48,9 +76,12 @@ export namespace SearchService {
             },
           });
 
+          const { heading, content, ...rest } = result;
           return {
-            ...result,
+            ...rest,
             summary: version?.aiSummary || undefined,
+            section: heading || undefined,
+            snippet: content ? createSnippet(content) : undefined,
           };
         }),
       );
@@ -63,61 +94,39 @@ export namespace SearchService {
   }
 
   /**
-   * Simple text-based search (fallback when vector search fails)
+   * Full-text search on recipe titles and content using the Postgres search vector
+   * Every word of the query must match, words also match as prefixes; snippets highlight the matches in bold
    */
-  export async function textSearch(query: string, limit = 10, projectIds?: string[]): Promise<SearchResult[]> {
-    if (!query.trim()) {
+  export async function textSearch(
+    query: string,
+    limit = 10,
+    projectIds?: string[],
+    filters: SearchFilters = {},
+  ): Promise<SearchResult[]> {
+    const tsQuery = toPrefixTsQuery(query);
+    if (!tsQuery) {
       return [];
     }
 
     try {
       const projectIdsArray = projectIds || [];
+      const projectCondition =
+        projectIdsArray.length > 0
+          ? Prisma.sql`AND rv.id IN (
+              SELECT rvp."B" 
+              FROM "_RecipeVersionProjects" rvp
+              INNER JOIN "Project" p ON rvp."A" = p.id
+              WHERE p."shortId" IN(${Prisma.join(projectIdsArray)})
+                AND p."deletedAt" IS NULL
+            )`
+          : Prisma.empty;
 
-      if (projectIdsArray.length === 0) {
-        // Search in recipe titles and content using PostgreSQL full-text search
-        const results = await prisma.$queryRaw<
-          Array<{
-            versionId: string;
-            recipeId: string;
-            title: string;
-            shortId: string;
-            aiSummary: string | null;
-          }>
-        >`
-          SELECT 
-            rv.id as "versionId",
-            rv."recipeId",
-            rv.title,
-            rv."shortId",
-            rv."aiSummary"
-          FROM "RecipeVersion" rv
-          WHERE rv."deletedAt" IS NULL 
-            AND rv."isCurrent" = true
-            AND (
-              rv.title ILIKE ${`%${query}%`} 
-              OR rv.content ILIKE ${`%${query}%`}
-            )
-          ORDER BY 
-            CASE 
-              WHEN rv.title ILIKE ${`%${query}%`} THEN 1 
-              ELSE 2 
-            END,
-            rv."updatedAt" DESC
-          LIMIT ${limit}
-        `;
-
-        return results.map((result, index) => ({
-          id: index, // Not from VecDocument, so use array index
-          title: result.title,
-          shortid: result.shortId,
-          versionId: result.versionId,
-          recipeId: result.recipeId,
-          similarity: 0.8, // Default similarity for text search
-          summary: result.aiSummary || undefined,
-        }));
-      }
+      // Proposals are never searchable, archived versions only when asked for
+      const versionCondition = filters.includeArchived
+        ? Prisma.sql`AND (rv."reviewStatus" IS NULL OR rv."reviewStatus" = 'accepted')`
+        : Prisma.sql`AND rv."isCurrent" = true`;
 
-      // Search in recipe titles and content using PostgreSQL full-text search
+      // Each recipe is returned once with its best-ranked version, highlights are only built for those
       const results = await prisma.$queryRaw<
         Array<{
           versionId: string;
@@ -125,37 +134,40 @@ export namespace SearchService {
           title: string;
           shortId: string;
           aiSummary: string | null;
+          isCurrent: boolean;
+          rank: number;
+          headline: string;
         }>
       >`
-        SELECT 
-          rv.id as "versionId",
-          rv."recipeId",
-          rv.title,
-          rv."shortId",
-          rv."aiSummary"
-        FROM "RecipeVersion" rv
-        WHERE rv."deletedAt" IS NULL 
-          AND rv."isCurrent" = true
-          AND (
-            rv.title ILIKE ${`%${query}%`} 
-            OR rv.content ILIKE ${`%${query}%`}
-          )
-          AND (
-            ${projectIdsArray.length} = 0 
-            OR rv.id IN (
-              SELECT rvp."B" 
-              FROM "_RecipeVersionProjects" rvp
-              INNER JOIN "Project" p ON rvp."A" = p.id
-              WHERE p."shortId" IN(${Prisma.join(projectIdsArray.length ? projectIdsArray : ["nope"])})
-                AND p."deletedAt" IS NULL
-            )
-          )
-        ORDER BY 
-          CASE 
-            WHEN rv.title ILIKE ${`%${query}%`} THEN 1 
-            ELSE 2 
-          END,
-          rv."updatedAt" DESC
+        SELECT
+          best."versionId",
+          best."recipeId",
+          best.title,
+          best."shortId",
+          best."aiSummary",
+          best."isCurrent",
+          best.rank,
+          ts_headline('english', best.content, q.query, 'StartSel=**, StopSel=**, MaxWords=35, MinWords=15, MaxFragments=2') AS headline
+        FROM (
+          SELECT DISTINCT ON (rv."recipeId")
+            rv.id as "versionId",
+            rv."recipeId",
+            rv.title,
+            rv."shortId",
+            rv."aiSummary",
+            rv."isCurrent",
+            rv.content,
+            rv."createdAt",
+            ts_rank_cd(rv."searchVector", q.query, 32) AS rank
+          FROM "RecipeVersion" rv, to_tsquery('english', ${tsQuery}) AS q(query)
+          WHERE rv."deletedAt" IS NULL 
+            ${versionCondition}
+            AND rv."searchVector" @@ q.query
+            ${projectCondition}
+            ${buildSearchFilterSql(filters, Prisma.sql`rv.id`)}
+          ORDER BY rv."recipeId", rank DESC, rv."createdAt" DESC
+        ) best, to_tsquery('english', ${tsQuery}) AS q(query)
+        ORDER BY best.rank DESC, best."createdAt" DESC
         LIMIT ${limit}
       `;
 
@@ -165,8 +177,10 @@ export namespace SearchService {
         shortid: result.shortId,
         versionId: result.versionId,
         recipeId: result.recipeId,
-        similarity: 0.8, // Default similarity for text search
+        similarity: result.rank,
+        isCurrent: result.isCurrent,
         summary: result.aiSummary || undefined,
+        snippet: result.headline.replace(/\s+/g, " ").trim() || undefined,
       }));
     } catch (error) {
       console.error("Error performing text search:", error);
@@ -175,25 +189,243 @@ export namespace SearchService {
   }
 
   /**
-   * Hybrid search - tries vector search first, falls back to text search
+   * Hybrid search - runs vector and full-text search and merges them with reciprocal rank fusion
+   * The weight of each search is configured with SEARCH_VECTOR_WEIGHT and SEARCH_TEXT_WEIGHT
    */
-  export async function hybridSearch(query: string, limit = 10, projectIds?: string[]): Promise<SearchResult[]> {
-    try {
-      // Try vector search first
-      const vectorResults = await searchRecipes(query, limit, 0.3, projectIds);
+  export async function hybridSearch(
+    query: string,
+    limit = 10,
+    projectIds?: string[],
+    filters: SearchFilters = {},
+  ): Promise<SearchResult[]> {
+    const { results } = await runHybridSearch(query, limit, projectIds, filters);
+    return results;
+  }
 
-      if (vectorResults.length > 0) {
-        return vectorResults;
-      }
+  /**
+   * Stream an answer to a question, synthesized from the given recipe versions
+   * The answer cites the sources by their position in versionIds, e.g. [1]
+   */
+  export async function streamAnswer(question: string, versionIds: string[], abortSignal?: AbortSignal) {
+    const versions = await prisma.recipeVersion.findMany({
+      where: { id: { in: versionIds }, deletedAt: null },
+      select: { id: true, title: true, content: true },
+    });
+    const sources = versionIds
+      .map((versionId) => versions.find((version) => version.id === versionId))
+      .filter((version) => version !== undefined);
+
+    const context = sources
+      .map((source, index) => {
+        return `[${index + 1}] ${source.title}\n\n${AIService.truncateToTokens(source.content, ANSWER_SOURCE_TOKENS)}`;
+      })
+      .join("\n\n---\n\n");
+
+    return AIService.streamTextCompletion(`Question: ${question}\n\nRecipes:\n\n${context}`, {
+      system: await Prompts.getByKey("SEARCH_ANSWER_SYSTEM"),
+      maxTokens: 1500,
+      temperature: 0.3,
+      abortSignal,
+    });
+  }
+
+  /**
+   * Hybrid search that is recorded for search analytics
+   * Returns the ID of the recorded search, so opened results can be logged as click-throughs
+   */
+  export async function loggedSearch(
+    query: string,
+    limit: number,
+    projectIds: string[] | undefined,
+    filters: SearchFilters,
+    context: { source: SearchSource; userId?: string; apiKeyId?: string },
+  ): Promise<{ searchId: string | null; results: SearchResult[] }> {
+    const startedAt = Date.now();
+    const { results, topSimilarity } = await runHybridSearch(query, limit, projectIds, filters);
+
+    // Analytics must never break a search
+    const search = await SearchQueries.log({
+      query,
+      source: context.source,
+      filters: { ...filters, projects: projectIds } as Prisma.InputJsonValue,
+      resultShortIds: results.map((result) => result.shortid),
+      topSimilarity,
+      latencyMs: Date.now() - startedAt,
+      userId: context.userId,
+      apiKeyId: context.apiKeyId,
+    }).catch((error) => {
+      console.error("Failed to record search query:", error);
+      return null;
+    });
+
+    return { searchId: search?.id ?? null, results };
+  }
+}
+
+/**
+ * Run vector and full-text search and fuse the results
+ * Also returns the best vector similarity, which tells how close the closest recipe is to the query
+ */
+async function runHybridSearch(query: string, limit: number, projectIds: string[] | undefined, filters: SearchFilters) {
+  // Fetch more candidates than needed, so recipes found by both searches can move up
+  const candidates = limit * 2;
+  const [vectorResults, textResults] = await Promise.allSettled([
+    SearchService.searchRecipes(query, candidates, 0.3, projectIds, filters),
+    SearchService.textSearch(query, candidates, projectIds, filters),
+  ]);
+
+  if (vectorResults.status === "rejected") {
+    console.error("Vector search failed, using text search only:", vectorResults.reason);
+  }
+  if (textResults.status === "rejected") {
+    console.error("Text search failed, using vector search only:", textResults.reason);
+  }
+  if (vectorResults.status === "rejected" && textResults.status === "rejected") {
+    throw new Error("Search failed: both vector and text search failed");
+  }
+
+  const vectorMatches = vectorResults.status === "fulfilled" ? vectorResults.value : [];
+  const results = fuseResults(
+    [
+      {
+        results: vectorMatches,
+        weight: Settings.get("SEARCH_VECTOR_WEIGHT"),
+      },
+      {
+        results: textResults.status === "fulfilled" ? textResults.value : [],
+        weight: Settings.get("SEARCH_TEXT_WEIGHT"),
+      },
+    ],
+    limit,
+  );
 
-      // Fall back to text search if no vector results
-      console.log("No vector search results, falling back to text search");
-      return await textSearch(query, limit, projectIds);
+  const topSimilarity = vectorMatches[0]?.similarity ?? null;
+
+  const rerankTopN = Settings.get("SEARCH_RERANK_TOP_N");
+  if (rerankTopN > 1 && AIProviders.isSummaryConfigured()) {
+    try {
+      return { results: await rerankResults(query, results, rerankTopN), topSimilarity };
     } catch (error) {
-      console.error("Vector search failed, falling back to text search:", error);
-      return await textSearch(query, limit, projectIds);
+      console.error("Re-ranking failed, using the fused order:", error);
     }
   }
+
+  return { results, topSimilarity };
+}
+
+/**
+ * Let the summary model re-order the top results by how well their summaries answer the query
+ * Results the model leaves out keep their order behind the ones it ranked
+ */
+async function rerankResults(query: string, results: SearchResult[], topN: number): Promise<SearchResult[]> {
+  const candidates = results.slice(0, topN);
+  if (candidates.length < 2) {
+    return results;
+  }
+
+  const list = candidates
+    .map((result, index) => {
+      const description = AIService.truncateToTokens(result.summary || result.snippet || "", RERANK_SUMMARY_TOKENS);
+      return `${index + 1}. ${result.title}\n${description}`;
+    })
+    .join("\n\n");
+  const reply = await AIService.generateTextCompletion(`Query: ${query}\n\nRecipes:\n\n${list}`, {
+    system: await Prompts.getByKey("SEARCH_RERANK_SYSTEM"),
+    maxTokens: 200,
+    temperature: 0,
+  });
+
+  // Numbers outside the candidate list and repeated numbers are dropped, unranked candidates keep their order
+  const rankedIndexes = (reply.match(/\d+/g) ?? [])
+    .map((match) => Number.parseInt(match, 10) - 1)
+    .filter(
+      (index, position, indexes) => index >= 0 && index < candidates.length && indexes.indexOf(index) === position,
+    );
+  const unrankedIndexes = candidates.map((_, index) => index).filter((index) => !rankedIndexes.includes(index));
+
+  return [...[...rankedIndexes, ...unrankedIndexes].map((index) => candidates[index]), ...results.slice(topN)];
+}
+
+/**
+ * Get the embedding of a search query, from the query embedding cache when it is fresh enough
+ * Cache errors never fail a search, the embedding is then generated as usual
+ */
+async function getQueryEmbedding(query: string, embeddingModel: string) {
+  // The normalized query is embedded, so queries that share a cache entry always get the same embedding
+  const normalizedQuery = QueryEmbeddings.normalizeQuery(query);
+
+  const ttlHours = Settings.get("QUERY_EMBEDDING_CACHE_TTL_HOURS");
+  if (ttlHours <= 0) {
+    return AIService.generateEmbedding(normalizedQuery);
+  }
+
+  const cached = await QueryEmbeddings.get(normalizedQuery, embeddingModel, ttlHours).catch((error) => {
+    console.error("Failed to read the query embedding cache:", error);
+    return null;
+  });
+  if (cached) {
+    return cached;
+  }
+
+  const embedding = await AIService.generateEmbedding(normalizedQuery);
+  await QueryEmbeddings.save(normalizedQuery, embeddingModel, embedding).catch((error) => {
+    console.error("Failed to store the query embedding:", error);
+  });
+  return embedding;
+}
+
+/**
+ * Merge ranked result lists with weighted reciprocal rank fusion
+ * Each recipe keeps the fields of the list that contributed most to its score
+ */
+function fuseResults(lists: Array<{ results: SearchResult[]; weight: number }>, limit: number): SearchResult[] {
+  const fused = new Map<string, { result: SearchResult; score: number; bestContribution: number }>();
+
+  for (const { results, weight } of lists) {
+    results.forEach((result, index) => {
+      const contribution = weight / (RRF_K + index + 1);
+      const existing = fused.get(result.recipeId);
+
+      if (!existing) {
+        fused.set(result.recipeId, { result, score: contribution, bestContribution: contribution });
+        return;
+      }
+
+      existing.score += contribution;
+      if (contribution > existing.bestContribution) {
+        existing.result = { ...result, summary: result.summary ?? existing.result.summary };
+        existing.bestContribution = contribution;
+      }
+    });
+  }
+
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ result, score }) => ({ ...result, score }));
+}
+
+/**
+ * Turn a user query into a tsquery where every word must match as a prefix, e.g. "deploy app" → "deploy:* & app:*"
+ */
+function toPrefixTsQuery(query: string) {
+  const words = query.match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.map((word) => `${word}:*`).join(" & ");
+}
+
+/**
+ * Create a short plain snippet from a chunk, without its heading line
+ */
+function createSnippet(content: string) {
+  const text = content
+    .replace(/^ {0,3}#{1,6}\s+.*\n?/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (text.length <= SNIPPET_LENGTH) return text;
+
+  const truncated = text.slice(0, SNIPPET_LENGTH);
+  const lastSpaceIndex = truncated.lastIndexOf(" ");
+  return `${lastSpaceIndex > SNIPPET_LENGTH - 50 ? truncated.slice(0, lastSpaceIndex) : truncated}…`;
 }
 
 // Import prisma at the bottom to avoid circular dependency issues
@@ -0,0 +1,56 @@
+import { Notifications } from "../data/notifications";
+import { SavedSearches } from "../data/savedSearches";
+import { toSearchFilters } from "../data/searchFilters";
+import prisma from "../prisma";
+import { SearchService } from "./search";
+
+export namespace SearchSubscriptions {
+  /**
+   * Notify the users whose saved searches match a newly processed recipe version
+   * A saved search matches when the version passes its filters and is at least notifyThreshold similar to its query
+   * Returns the number of notifications that were created
+   */
+  export async function notifyMatches(versionId: string) {
+    const version = await prisma.recipeVersion.findFirst({
+      where: { id: versionId, deletedAt: null },
+      select: { title: true, recipeId: true, isCurrent: true, createdBy: true },
+    });
+    // Proposals and replaced versions are not searchable, so they cannot match
+    if (!version?.isCurrent) {
+      return 0;
+    }
+
+    let notified = 0;
+    for (const savedSearch of await SavedSearches.listSubscriptions()) {
+      // Authors do not need to hear about their own changes
+      if (savedSearch.userId === version.createdBy) continue;
+
+      try {
+        if (await Notifications.existsForSavedSearch(savedSearch.id, versionId)) continue;
+
+        const [match] = await SearchService.searchRecipes(
+          savedSearch.query,
+          1,
+          savedSearch.notifyThreshold,
+          savedSearch.filters.projects,
+          { ...toSearchFilters(savedSearch.filters), versionId },
+        );
+        if (!match) continue;
+
+        await Notifications.create({
+          userId: savedSearch.userId,
+          title: `New match for "${savedSearch.name}"`,
+          message: `${version.title} matches your saved search (${Math.round(match.similarity * 100)}% similar)`,
+          recipeId: version.recipeId,
+          versionId,
+          savedSearchId: savedSearch.id,
+        });
+        notified++;
+      } catch (error) {
+        console.error(`Failed to check saved search ${savedSearch.id} for version ${versionId}:`, error);
+      }
+    }
+
+    return notified;
+  }
+}
@@ -6,20 +6,46 @@
  */
 
 import "dotenv/config";
+import { randomUUID } from "node:crypto";
 import type { Server } from "node:http";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import express, { type Request, type Response } from "express";
-import { z } from "zod";
-import { Prompts } from "./lib/data/prompts.js";
+import { ApiKeys } from "./lib/data/apiKeys.js";
 import { Recipes } from "./lib/data/recipes.js";
-import { SearchService } from "./lib/services/search.js";
+import { Settings } from "./lib/data/settings.js";
+import { createMcpServer, loadMcpServerInfo } from "./lib/mcp/server.js";
+
+interface McpSession {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  apiKeyId: string;
+  // Recipes read or subscribed to in this session: shortId -> current version id when last seen
+  watchedRecipes: Map<string, string | null>;
+  // When the client last sent a request, and how many notification streams it has open
+  lastActiveAt: number;
+  openStreams: number;
+}
 
 class StandaloneMcpServer {
   private server: McpServer | null = null;
   private app: express.Express | null = null;
   private httpServer: Server | null = null;
+  private serverInfo: { description: string; instructions: string } | null = null;
+  private updateInterval: NodeJS.Timeout | null = null;
+  private readonly sessions = new Map<string, McpSession>();
   private readonly port = 3002;
+  // Stateful mode keeps sessions so clients can open an SSE stream and receive notifications
+  private readonly stateful = process.env.MCP_STATEFUL === "true";
+  private readonly updateIntervalMs = process.env.MCP_UPDATE_INTERVAL_MS
+    ? parseInt(process.env.MCP_UPDATE_INTERVAL_MS)
+    : 10000; // 10 seconds
+  // Sessions of clients that disconnect without ending them are closed after this idle time
+  private readonly sessionIdleTimeoutMs = process.env.MCP_SESSION_IDLE_TIMEOUT_MS
+    ? parseInt(process.env.MCP_SESSION_IDLE_TIMEOUT_MS)
+    : 30 * 60 * 1000; // 30 minutes
 
   /**
    * Start the MCP server
@@ -32,26 +58,23 @@ class StandaloneMcpServer {
 
     console.log("Starting standalone MCP server...");
 
-    // Get prompts from database with fallback to constants
-    const [description, instructions] = await Promise.all([
-      Prompts.getByKey("MCP_SERVER_DESCRIPTION"),
-      Prompts.getByKey("MCP_SERVER_INSTRUCTIONS"),
-    ]);
-
-    // Create the MCP server
-    this.server = new McpServer(
-      {
-        name: "Neural Kitchen",
-        version: "0.1.0",
-        description,
-      },
-      {
-        instructions,
-      },
-    );
+    // Initialize settings cache, refreshed so changes saved in the web app reach this process
+    await Settings.loadSettings();
+    Settings.startAutoRefresh();
+
+    this.serverInfo = await loadMcpServerInfo();
 
-    // Register tools
-    this.registerTools();
+    if (this.stateful) {
+      // Each session gets its own MCP server; watch read recipes for new current versions
+      this.updateInterval = setInterval(() => {
+        this.closeIdleSessions();
+        this.notifyRecipeUpdates().catch((error) => {
+          console.error("Error checking for recipe updates:", error);
+        });
+      }, this.updateIntervalMs);
+    } else {
+      this.server = this.createServer();
+    }
 
     // Create Express app
     this.app = express();
@@ -66,7 +89,9 @@ class StandaloneMcpServer {
         console.error("Failed to start MCP server:", error);
         process.exit(1);
       }
-      console.log(`🚀 MCP Stateless Streamable HTTP Server listening on port ${this.port}`);
+      console.log(
+        `🚀 MCP ${this.stateful ? "Stateful" : "Stateless"} Streamable HTTP Server listening on port ${this.port}`,
+      );
     });
 
     // Handle graceful shutdown
@@ -77,6 +102,19 @@ class StandaloneMcpServer {
    * Stop the MCP server
    */
   stop() {
+    Settings.stopAutoRefresh();
+
+    if (this.updateInterval) {
+      clearInterval(this.updateInterval);
+      this.updateInterval = null;
+    }
+
+    for (const session of this.sessions.values()) {
+      session.transport.close();
+      session.server.close();
+    }
+    this.sessions.clear();
+
     if (this.httpServer) {
       this.httpServer.close();
       this.httpServer = null;
@@ -90,151 +128,123 @@ class StandaloneMcpServer {
   }
 
   /**
-   * Register MCP tools
+   * Create an MCP server for a request (stateless mode) or a session (stateful mode)
    */
-  private registerTools() {
-    if (!this.server) return;
-
-    // Get a single recipe by ID or shortId (full content)
-    this.server.registerTool(
-      "get_recipe",
-      {
-        title: "Get a single recipe by ID or shortId with full content",
-        description: "Get a single recipe by ID or shortId with full content",
-        inputSchema: {
-          identifier: z.string().describe("Recipe ID or shortId to retrieve"),
-          projects: z.array(z.string()).describe("Projects to search for recipes, (optional)").optional(),
-        },
-      },
-      async (args, extra) => {
-        try {
-          console.log("get_recipe", args, extra);
-          const { identifier, projects } = args;
-
-          // Try to get recipe by ID first, then by shortId
-          let recipe = await Recipes.read(identifier);
-          if (!recipe) {
-            recipe = await Recipes.readByShortId(identifier);
-          }
+  private createServer() {
+    if (!this.serverInfo) {
+      throw new Error("MCP server info is not loaded");
+    }
 
-          if (!recipe || !recipe.currentVersion) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Recipe not found: ${identifier}`,
-                },
-              ],
-            };
+    return createMcpServer({
+      ...this.serverInfo,
+      // In stateful mode sessions are notified when recipes they have seen get a new current version
+      recipeWatcher: this.stateful
+        ? {
+            watch: (sessionId, shortId, currentVersionId) => {
+              if (!sessionId) return;
+              this.sessions.get(sessionId)?.watchedRecipes.set(shortId, currentVersionId);
+            },
+            unwatch: (sessionId, shortId) => {
+              if (!sessionId) return;
+              this.sessions.get(sessionId)?.watchedRecipes.delete(shortId);
+            },
           }
+        : undefined,
+    });
+  }
 
-          // Check if recipe belongs to specified projects (if projects filter is provided)
-          let projectWarning = "";
-          if (projects && projects.length > 0) {
-            const recipeProjectShortIds = recipe.currentVersion.projects?.map((p) => p.shortId) || [];
-            const hasMatchingProject = projects.some((projectShortId) =>
-              recipeProjectShortIds.includes(projectShortId),
-            );
-
-            if (!hasMatchingProject) {
-              const projectNames = recipe.currentVersion.projects?.map((p) => p.title).join(", ") || "none";
-              projectWarning = `\n\n*Note: This recipe is not associated with the specified projects. Recipe projects: ${projectNames}*`;
-            }
-          }
+  /**
+   * Close sessions without an open notification stream that sent no request for the idle timeout
+   * Clients that disconnect without a DELETE request would otherwise keep their session until a restart
+   */
+  private closeIdleSessions() {
+    const idleSince = Date.now() - this.sessionIdleTimeoutMs;
+    for (const [sessionId, session] of this.sessions) {
+      if (session.openStreams > 0 || session.lastActiveAt > idleSince) continue;
+
+      console.log("MCP session idle, closing", sessionId);
+      this.sessions.delete(sessionId);
+      session.transport.close();
+      session.server.close();
+    }
+  }
 
-          // Return full recipe content
-          return {
-            content: [
-              {
-                type: "text",
-                text: `# ${recipe.currentVersion.title}\n\n${recipe.currentVersion.content}${projectWarning}`,
-              },
-            ],
-          };
-        } catch (error) {
-          console.error("Error in get_recipe:", error);
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Error retrieving recipe: ${error instanceof Error ? error.message : "Unknown error"}`,
-              },
-            ],
-          };
-        }
-      },
-    );
-
-    // Search recipes using the same logic as the UI
-    this.server.registerTool(
-      "search_recipes",
-      {
-        title: "Search Recipes",
-        description: "Search recipes using semantic and text search with AI summaries",
-        inputSchema: {
-          query: z.string().describe("Search query to find relevant recipes"),
-          projects: z.array(z.string()).describe("Projects to search for recipes, (optional)").optional(),
-        },
-      },
-      async (args) => {
-        try {
-          const limit = 10;
-          const { query, projects } = args;
-          console.info("search_recipes", args);
-
-          // Use hybrid search (vector + text fallback)
-          const results = await SearchService.hybridSearch(query, limit, projects);
-
-          if (results.length === 0) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `No recipes found for query: "${query}"`,
-                },
-              ],
-            };
-          }
+  /**
+   * Send notifications/resources/updated to sessions whose watched recipes have a new current version
+   * Recipes are saved by the web app, so changes are picked up by polling the database
+   */
+  private async notifyRecipeUpdates() {
+    const shortIds = new Set<string>();
+    for (const session of this.sessions.values()) {
+      for (const shortId of session.watchedRecipes.keys()) {
+        shortIds.add(shortId);
+      }
+    }
 
-          // Format results for AI consumption
-          const formattedResults = results
-            .map((result, index) => {
-              const summary = result.summary || "No summary available";
-              return `${index + 1}. **${result.title}** (ID: ${result.shortid})
-   Summary: ${summary}
-   
-   *This is a short summary. Use get_recipe with ID "${result.shortid}" to get the full content.*`;
-            })
-            .join("\n\n");
-
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Found ${results.length} recipe(s) for "${query}":\n\n${formattedResults}`,
-              },
-            ],
-          };
-        } catch (error) {
-          console.error("Error in search_recipes:", error);
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Error searching recipes: ${error instanceof Error ? error.message : "Unknown error"}`,
-              },
-            ],
-          };
-        }
+    if (shortIds.size === 0) return;
+
+    const recipes = await Recipes.getCurrentVersionIds([...shortIds]);
+    const currentVersionIds = new Map(recipes.map((recipe) => [recipe.shortId, recipe.currentVersionId]));
+
+    for (const session of this.sessions.values()) {
+      for (const [shortId, seenVersionId] of session.watchedRecipes) {
+        const currentVersionId = currentVersionIds.get(shortId);
+        if (!currentVersionId || currentVersionId === seenVersionId) continue;
+
+        session.watchedRecipes.set(shortId, currentVersionId);
+        await session.server.server.sendResourceUpdated({ uri: `neuralkitchen://recipe/${shortId}` });
+      }
+    }
+  }
+
+  /**
+   * Authenticate a request with the API key from its "Authorization: Bearer" header
+   * Sends a 401 response and returns null when the key is missing, unknown or revoked
+   */
+  private async authenticate(req: Request, res: Response): Promise<AuthInfo | null> {
+    const header = req.headers.authorization;
+    const token = header?.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : undefined;
+    const apiKey = token ? await ApiKeys.verify(token) : null;
+
+    if (!token || !apiKey) {
+      res
+        .status(401)
+        .set("WWW-Authenticate", "Bearer")
+        .json({
+          jsonrpc: "2.0",
+          error: {
+            code: -32001,
+            message: token
+              ? "Invalid or revoked API key."
+              : "Missing API key. Send it as 'Authorization: Bearer <key>'.",
+          },
+          id: null,
+        });
+      return null;
+    }
+
+    // Keys without projects have access to everything; deleted projects no longer grant access
+    const allowedProjects =
+      apiKey.projects.length > 0
+        ? apiKey.projects.filter((project) => !project.deletedAt).map((project) => project.shortId)
+        : undefined;
+
+    return {
+      token,
+      clientId: apiKey.id,
+      scopes: [],
+      extra: {
+        apiKeyName: apiKey.name,
+        allowedProjects,
       },
-    );
+    };
   }
 
   /**
    * Register Express routes for MCP endpoints
    */
   private registerRoutes() {
-    if (!this.app || !this.server) return;
+    if (!this.app) return;
 
     // Health check endpoint
     this.app.get("/health", (_req: Request, res: Response) => {
@@ -249,9 +259,8 @@ class StandaloneMcpServer {
     // POST /mcp - Handle MCP requests
     this.app.post("/mcp", async (req: Request, res: Response) => {
       try {
-        const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
-          sessionIdGenerator: undefined,
-        });
+        const authInfo = await this.authenticate(req, res);
+        if (!authInfo) return;
 
         console.info("Query params", req.query.projects);
 
@@ -264,7 +273,17 @@ class StandaloneMcpServer {
           }
         }
 
-        console.info("Body", req.body);
+        // The transport passes req.auth on to tool and resource handlers as extra.authInfo
+        const authenticatedReq = Object.assign(req, { auth: authInfo });
+
+        if (this.stateful) {
+          await this.handleStatefulPost(authenticatedReq, res, authInfo);
+          return;
+        }
+
+        const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: undefined,
+        });
 
         res.on("close", () => {
           console.log("Request closed");
@@ -275,7 +294,7 @@ class StandaloneMcpServer {
         if (this.server) {
           await this.server.connect(transport);
         }
-        await transport.handleRequest(req, res, req.body);
+        await transport.handleRequest(authenticatedReq, res, req.body);
       } catch (error) {
         console.error("Error handling MCP request:", error);
         if (!res.headersSent) {
@@ -291,9 +310,79 @@ class StandaloneMcpServer {
       }
     });
 
-    // GET /mcp - Not supported in stateless mode
-    this.app.get("/mcp", async (_req: Request, res: Response) => {
+    // GET /mcp - Open the SSE stream for server notifications (stateful mode only)
+    this.app.get("/mcp", async (req: Request, res: Response) => {
       console.log("Received GET MCP request");
+      await this.handleSessionRequest(req, res);
+    });
+
+    // DELETE /mcp - End a session (stateful mode only)
+    this.app.delete("/mcp", async (req: Request, res: Response) => {
+      console.log("Received DELETE MCP request");
+      await this.handleSessionRequest(req, res);
+    });
+  }
+
+  /**
+   * Handle a POST request in stateful mode
+   * Initialize requests start a new session, all other requests must carry the session ID
+   */
+  private async handleStatefulPost(req: Request & { auth: AuthInfo }, res: Response, authInfo: AuthInfo) {
+    const sessionId = req.headers["mcp-session-id"];
+    const session = typeof sessionId === "string" ? this.sessions.get(sessionId) : undefined;
+
+    if (session && session.apiKeyId === authInfo.clientId) {
+      session.lastActiveAt = Date.now();
+      await session.transport.handleRequest(req, res, req.body);
+      return;
+    }
+
+    if (sessionId || !isInitializeRequest(req.body)) {
+      res.status(sessionId ? 404 : 400).json({
+        jsonrpc: "2.0",
+        error: {
+          code: -32000,
+          message: sessionId ? "Session not found." : "Bad Request: No valid session ID provided.",
+        },
+        id: null,
+      });
+      return;
+    }
+
+    const server = this.createServer();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        console.log("MCP session started", newSessionId);
+        this.sessions.set(newSessionId, {
+          transport,
+          server,
+          apiKeyId: authInfo.clientId,
+          watchedRecipes: new Map(),
+          lastActiveAt: Date.now(),
+          openStreams: 0,
+        });
+      },
+    });
+
+    // Set before connecting so the MCP server can chain its own close handling
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        console.log("MCP session closed", transport.sessionId);
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  }
+
+  /**
+   * Handle GET (notification stream) and DELETE (end session) requests for an existing session
+   * Both are rejected with 405 in stateless mode
+   */
+  private async handleSessionRequest(req: Request, res: Response) {
+    if (!this.stateful) {
       res.writeHead(405).end(
         JSON.stringify({
           jsonrpc: "2.0",
@@ -304,22 +393,52 @@ class StandaloneMcpServer {
           id: null,
         }),
       );
-    });
+      return;
+    }
 
-    // DELETE /mcp - Not needed in stateless mode
-    this.app.delete("/mcp", async (_req: Request, res: Response) => {
-      console.log("Received DELETE MCP request");
-      res.writeHead(405).end(
-        JSON.stringify({
+    try {
+      const authInfo = await this.authenticate(req, res);
+      if (!authInfo) return;
+
+      const sessionId = req.headers["mcp-session-id"];
+      const session = typeof sessionId === "string" ? this.sessions.get(sessionId) : undefined;
+
+      if (!session || session.apiKeyId !== authInfo.clientId) {
+        res.status(sessionId ? 404 : 400).json({
           jsonrpc: "2.0",
           error: {
             code: -32000,
-            message: "Method not allowed.",
+            message: sessionId ? "Session not found." : "Bad Request: No valid session ID provided.",
           },
           id: null,
-        }),
-      );
-    });
+        });
+        return;
+      }
+
+      session.lastActiveAt = Date.now();
+      // An open notification stream keeps the session alive, the idle time starts when it closes
+      if (req.method === "GET") {
+        session.openStreams++;
+        res.on("close", () => {
+          session.openStreams--;
+          session.lastActiveAt = Date.now();
+        });
+      }
+
+      await session.transport.handleRequest(Object.assign(req, { auth: authInfo }), res);
+    } catch (error) {
+      console.error("Error handling MCP session request:", error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          jsonrpc: "2.0",
+          error: {
+            code: -32603,
+            message: "Internal server error",
+          },
+          id: null,
+        });
+      }
+    }
   }
 
   /**
@@ -344,6 +463,8 @@ class StandaloneMcpServer {
       isRunning: this.httpServer !== null,
       port: this.port,
       hasServer: this.server !== null,
+      stateful: this.stateful,
+      sessions: this.sessions.size,
     };
   }
 }
@@ -0,0 +1,39 @@
+#!/usr/bin/env node
+
+/**
+ * Standalone MCP Server over stdio
+ * For local agent clients that start the server as a subprocess instead of connecting over HTTP
+ */
+
+import "./lib/mcp/stdioConsole.js";
+import "dotenv/config";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { Settings } from "./lib/data/settings.js";
+import { createMcpServer, loadMcpServerInfo } from "./lib/mcp/server.js";
+
+async function main() {
+  // Initialize settings cache
+  await Settings.loadSettings();
+  Settings.startAutoRefresh();
+
+  // The stdio server runs locally with database access, so there is no API key and no project restriction
+  const server = createMcpServer(await loadMcpServerInfo());
+  await server.connect(new StdioServerTransport());
+
+  console.log("🚀 MCP stdio server ready");
+
+  const shutdown = () => {
+    console.log("\n🛑 Shutting down MCP stdio server...");
+    Settings.stopAutoRefresh();
+    server.close();
+    process.exit(0);
+  };
+
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error("Failed to start MCP stdio server:", error);
+  process.exit(1);
+});
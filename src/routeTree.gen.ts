@@ -12,6 +12,7 @@ import { createServerRootRoute } from '@tanstack/react-start/server'
 
 import { Route as rootRouteImport } from './routes/__root'
 import { Route as TagsRouteImport } from './routes/tags'
+import { Route as SearchAnalyticsRouteImport } from './routes/search-analytics'
 import { Route as SearchRouteImport } from './routes/search'
 import { Route as QueueRouteImport } from './routes/queue'
 import { Route as PreferencesRouteImport } from './routes/preferences'
@@ -32,7 +33,12 @@ import { Route as SettingsPromptsPromptKeyRouteImport } from './routes/settings/
 import { Route as RecipesRecipeIdEditRouteImport } from './routes/recipes/$recipeId/edit'
 import { Route as ProjectsProjectIdEditRouteImport } from './routes/projects/$projectId/edit'
 import { Route as RecipesRecipeIdVersionsIndexRouteImport } from './routes/recipes/$recipeId/versions/index'
+import { Route as SettingsAgentPromptsRouteImport } from './routes/settings/agent-prompts'
+import { Route as ReviewsRouteImport } from './routes/reviews'
+import { Route as SettingsApiKeysRouteImport } from './routes/settings/api-keys'
+import { Route as UsageRouteImport } from './routes/usage'
 import { ServerRoute as ApiLogoutServerRouteImport } from './routes/api/logout'
+import { ServerRoute as ApiAskServerRouteImport } from './routes/api/ask'
 import { ServerRoute as ApiAuthSplatServerRouteImport } from './routes/api/auth/$'
 
 const rootServerRouteImport = createServerRootRoute()
@@ -42,6 +48,11 @@ const TagsRoute = TagsRouteImport.update({
   path: '/tags',
   getParentRoute: () => rootRouteImport,
 } as any)
+const SearchAnalyticsRoute = SearchAnalyticsRouteImport.update({
+  id: '/search-analytics',
+  path: '/search-analytics',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const SearchRoute = SearchRouteImport.update({
   id: '/search',
   path: '/search',
@@ -144,11 +155,36 @@ const RecipesRecipeIdVersionsIndexRoute =
     path: '/recipes/$recipeId/versions/',
     getParentRoute: () => rootRouteImport,
   } as any)
+const SettingsAgentPromptsRoute = SettingsAgentPromptsRouteImport.update({
+  id: '/settings/agent-prompts',
+  path: '/settings/agent-prompts',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ReviewsRoute = ReviewsRouteImport.update({
+  id: '/reviews',
+  path: '/reviews',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const SettingsApiKeysRoute = SettingsApiKeysRouteImport.update({
+  id: '/settings/api-keys',
+  path: '/settings/api-keys',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const UsageRoute = UsageRouteImport.update({
+  id: '/usage',
+  path: '/usage',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ApiLogoutServerRoute = ApiLogoutServerRouteImport.update({
   id: '/api/logout',
   path: '/api/logout',
   getParentRoute: () => rootServerRouteImport,
 } as any)
+const ApiAskServerRoute = ApiAskServerRouteImport.update({
+  id: '/api/ask',
+  path: '/api/ask',
+  getParentRoute: () => rootServerRouteImport,
+} as any)
 const ApiAuthSplatServerRoute = ApiAuthSplatServerRouteImport.update({
   id: '/api/auth/$',
   path: '/api/auth/$',
@@ -161,6 +197,7 @@ export interface FileRoutesByFullPath {
   '/preferences': typeof PreferencesRoute
   '/queue': typeof QueueRoute
   '/search': typeof SearchRoute
+  '/search-analytics': typeof SearchAnalyticsRoute
   '/tags': typeof TagsRoute
   '/help/$helpFile': typeof HelpHelpFileRoute
   '/recipes/create': typeof RecipesCreateRoute
@@ -177,6 +214,10 @@ export interface FileRoutesByFullPath {
   '/recipes/$recipeId': typeof RecipesRecipeIdIndexRoute
   '/users/$userId': typeof UsersUserIdIndexRoute
   '/recipes/$recipeId/versions': typeof RecipesRecipeIdVersionsIndexRoute
+  '/settings/agent-prompts': typeof SettingsAgentPromptsRoute
+  '/reviews': typeof ReviewsRoute
+  '/settings/api-keys': typeof SettingsApiKeysRoute
+  '/usage': typeof UsageRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
@@ -184,6 +225,7 @@ export interface FileRoutesByTo {
   '/preferences': typeof PreferencesRoute
   '/queue': typeof QueueRoute
   '/search': typeof SearchRoute
+  '/search-analytics': typeof SearchAnalyticsRoute
   '/tags': typeof TagsRoute
   '/help/$helpFile': typeof HelpHelpFileRoute
   '/recipes/create': typeof RecipesCreateRoute
@@ -200,6 +242,10 @@ export interface FileRoutesByTo {
   '/recipes/$recipeId': typeof RecipesRecipeIdIndexRoute
   '/users/$userId': typeof UsersUserIdIndexRoute
   '/recipes/$recipeId/versions': typeof RecipesRecipeIdVersionsIndexRoute
+  '/settings/agent-prompts': typeof SettingsAgentPromptsRoute
+  '/reviews': typeof ReviewsRoute
+  '/settings/api-keys': typeof SettingsApiKeysRoute
+  '/usage': typeof UsageRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
@@ -208,6 +254,7 @@ export interface FileRoutesById {
   '/preferences': typeof PreferencesRoute
   '/queue': typeof QueueRoute
   '/search': typeof SearchRoute
+  '/search-analytics': typeof SearchAnalyticsRoute
   '/tags': typeof TagsRoute
   '/help/$helpFile': typeof HelpHelpFileRoute
   '/recipes/create': typeof RecipesCreateRoute
@@ -224,6 +271,10 @@ export interface FileRoutesById {
   '/recipes/$recipeId/': typeof RecipesRecipeIdIndexRoute
   '/users/$userId/': typeof UsersUserIdIndexRoute
   '/recipes/$recipeId/versions/': typeof RecipesRecipeIdVersionsIndexRoute
+  '/settings/agent-prompts': typeof SettingsAgentPromptsRoute
+  '/reviews': typeof ReviewsRoute
+  '/settings/api-keys': typeof SettingsApiKeysRoute
+  '/usage': typeof UsageRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
@@ -233,6 +284,7 @@ export interface FileRouteTypes {
     | '/preferences'
     | '/queue'
     | '/search'
+    | '/search-analytics'
     | '/tags'
     | '/help/$helpFile'
     | '/recipes/create'
@@ -249,6 +301,10 @@ export interface FileRouteTypes {
     | '/recipes/$recipeId'
     | '/users/$userId'
     | '/recipes/$recipeId/versions'
+    | '/settings/agent-prompts'
+    | '/reviews'
+    | '/settings/api-keys'
+    | '/usage'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
@@ -256,6 +312,7 @@ export interface FileRouteTypes {
     | '/preferences'
     | '/queue'
     | '/search'
+    | '/search-analytics'
     | '/tags'
     | '/help/$helpFile'
     | '/recipes/create'
@@ -272,6 +329,10 @@ export interface FileRouteTypes {
     | '/recipes/$recipeId'
     | '/users/$userId'
     | '/recipes/$recipeId/versions'
+    | '/settings/agent-prompts'
+    | '/reviews'
+    | '/settings/api-keys'
+    | '/usage'
   id:
     | '__root__'
     | '/'
@@ -279,6 +340,7 @@ export interface FileRouteTypes {
     | '/preferences'
     | '/queue'
     | '/search'
+    | '/search-analytics'
     | '/tags'
     | '/help/$helpFile'
     | '/recipes/create'
@@ -295,6 +357,10 @@ export interface FileRouteTypes {
     | '/recipes/$recipeId/'
     | '/users/$userId/'
     | '/recipes/$recipeId/versions/'
+    | '/settings/agent-prompts'
+    | '/reviews'
+    | '/settings/api-keys'
+    | '/usage'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
@@ -303,6 +369,7 @@ export interface RootRouteChildren {
   PreferencesRoute: typeof PreferencesRoute
   QueueRoute: typeof QueueRoute
   SearchRoute: typeof SearchRoute
+  SearchAnalyticsRoute: typeof SearchAnalyticsRoute
   TagsRoute: typeof TagsRoute
   HelpHelpFileRoute: typeof HelpHelpFileRoute
   RecipesCreateRoute: typeof RecipesCreateRoute
@@ -319,35 +386,71 @@ export interface RootRouteChildren {
   RecipesRecipeIdIndexRoute: typeof RecipesRecipeIdIndexRoute
   UsersUserIdIndexRoute: typeof UsersUserIdIndexRoute
   RecipesRecipeIdVersionsIndexRoute: typeof RecipesRecipeIdVersionsIndexRoute
+  SettingsAgentPromptsRoute: typeof SettingsAgentPromptsRoute
+  ReviewsRoute: typeof ReviewsRoute
+  SettingsApiKeysRoute: typeof SettingsApiKeysRoute
+  UsageRoute: typeof UsageRoute
 }
 export interface FileServerRoutesByFullPath {
+  '/api/ask': typeof ApiAskServerRoute
   '/api/logout': typeof ApiLogoutServerRoute
   '/api/auth/$': typeof ApiAuthSplatServerRoute
 }
 export interface FileServerRoutesByTo {
+  '/api/ask': typeof ApiAskServerRoute
   '/api/logout': typeof ApiLogoutServerRoute
   '/api/auth/$': typeof ApiAuthSplatServerRoute
 }
 export interface FileServerRoutesById {
   __root__: typeof rootServerRouteImport
+  '/api/ask': typeof ApiAskServerRoute
   '/api/logout': typeof ApiLogoutServerRoute
   '/api/auth/$': typeof ApiAuthSplatServerRoute
 }
 export interface FileServerRouteTypes {
   fileServerRoutesByFullPath: FileServerRoutesByFullPath
-  fullPaths: '/api/logout' | '/api/auth/$'
+  fullPaths: '/api/ask' | '/api/logout' | '/api/auth/$'
   fileServerRoutesByTo: FileServerRoutesByTo
-  to: '/api/logout' | '/api/auth/$'
-  id: '__root__' | '/api/logout' | '/api/auth/$'
+  to: '/api/ask' | '/api/logout' | '/api/auth/$'
+  id: '__root__' | '/api/ask' | '/api/logout' | '/api/auth/$'
   fileServerRoutesById: FileServerRoutesById
 }
 export interface RootServerRouteChildren {
+  ApiAskServerRoute: typeof ApiAskServerRoute
   ApiLogoutServerRoute: typeof ApiLogoutServerRoute
   ApiAuthSplatServerRoute: typeof ApiAuthSplatServerRoute
 }
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
+    '/usage': {
+      id: '/usage'
+      path: '/usage'
+      fullPath: '/usage'
+      preLoaderRoute: typeof UsageRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/settings/api-keys': {
+      id: '/settings/api-keys'
+      path: '/settings/api-keys'
+      fullPath: '/settings/api-keys'
+      preLoaderRoute: typeof SettingsApiKeysRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/reviews': {
+      id: '/reviews'
+      path: '/reviews'
+      fullPath: '/reviews'
+      preLoaderRoute: typeof ReviewsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/settings/agent-prompts': {
+      id: '/settings/agent-prompts'
+      path: '/settings/agent-prompts'
+      fullPath: '/settings/agent-prompts'
+      preLoaderRoute: typeof SettingsAgentPromptsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/tags': {
       id: '/tags'
       path: '/tags'
@@ -355,6 +458,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof TagsRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/search-analytics': {
+      id: '/search-analytics'
+      path: '/search-analytics'
+      fullPath: '/search-analytics'
+      preLoaderRoute: typeof SearchAnalyticsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/search': {
       id: '/search'
       path: '/search'
@@ -506,6 +616,13 @@ declare module '@tanstack/react-start/server' {
       preLoaderRoute: typeof ApiLogoutServerRouteImport
       parentRoute: typeof rootServerRouteImport
     }
+    '/api/ask': {
+      id: '/api/ask'
+      path: '/api/ask'
+      fullPath: '/api/ask'
+      preLoaderRoute: typeof ApiAskServerRouteImport
+      parentRoute: typeof rootServerRouteImport
+    }
     '/api/auth/$': {
       id: '/api/auth/$'
       path: '/api/auth/$'
@@ -522,6 +639,7 @@ const rootRouteChildren: RootRouteChildren = {
   PreferencesRoute: PreferencesRoute,
   QueueRoute: QueueRoute,
   SearchRoute: SearchRoute,
+  SearchAnalyticsRoute: SearchAnalyticsRoute,
   TagsRoute: TagsRoute,
   HelpHelpFileRoute: HelpHelpFileRoute,
   RecipesCreateRoute: RecipesCreateRoute,
@@ -538,11 +656,16 @@ const rootRouteChildren: RootRouteChildren = {
   RecipesRecipeIdIndexRoute: RecipesRecipeIdIndexRoute,
   UsersUserIdIndexRoute: UsersUserIdIndexRoute,
   RecipesRecipeIdVersionsIndexRoute: RecipesRecipeIdVersionsIndexRoute,
+  SettingsAgentPromptsRoute: SettingsAgentPromptsRoute,
+  ReviewsRoute: ReviewsRoute,
+  SettingsApiKeysRoute: SettingsApiKeysRoute,
+  UsageRoute: UsageRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
   ._addFileTypes<FileRouteTypes>()
 const rootServerRouteChildren: RootServerRouteChildren = {
+  ApiAskServerRoute: ApiAskServerRoute,
   ApiLogoutServerRoute: ApiLogoutServerRoute,
   ApiAuthSplatServerRoute: ApiAuthSplatServerRoute,
 }
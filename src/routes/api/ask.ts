@@ -0,0 +1,39 @@
+import { createServerFileRoute } from "@tanstack/react-start/server";
+import { z } from "zod";
+import { auth } from "~/lib/auth";
+import { AIProviders } from "~/lib/services/aiProviders";
+import { SearchService } from "~/lib/services/search";
+
+const askSchema = z.object({
+  question: z.string().trim().min(1),
+  versionIds: z.array(z.string()).min(1).max(10),
+});
+
+export const ServerRoute = createServerFileRoute("/api/ask").methods({
+  POST: async ({ request }) => {
+    const session = await auth.api.getSession({ headers: request.headers });
+    if (!session?.user?.id) {
+      return new Response("User not authenticated", { status: 401 });
+    }
+
+    const parsed = askSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return new Response("Invalid request", { status: 400 });
+    }
+
+    if (!AIProviders.isSummaryConfigured()) {
+      return new Response("The summary provider is not configured, answers need a text generation model", {
+        status: 503,
+      });
+    }
+
+    try {
+      // The answer is streamed as plain text, the client already has the sources from the search results
+      const result = await SearchService.streamAnswer(parsed.data.question, parsed.data.versionIds, request.signal);
+      return result.toTextStreamResponse();
+    } catch (error) {
+      console.error("Ask error:", error);
+      return new Response("Failed to generate an answer", { status: 500 });
+    }
+  },
+});
@@ -1,9 +1,15 @@
-import { createFileRoute, Link, redirect } from "@tanstack/react-router";
+import { createFileRoute, Link, redirect, useRouter } from "@tanstack/react-router";
 import { createServerFn } from "@tanstack/react-start";
+import { Bell, BellOff, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
 import { LazyUserAvatar } from "../components/LazyUserAvatar";
+import { Button } from "../components/ui/button";
 import { authMiddlewareEnsure } from "../lib/auth-middleware";
 import { getUserDetails } from "../lib/auth-server-user";
 import { Recipes } from "../lib/data/recipes";
+import { SavedSearches } from "../lib/data/savedSearches";
+import { savedSearchIdSchema } from "../lib/dataValidators";
 import { formatDateTime } from "../lib/dateUtils";
 import prisma from "../lib/prisma";
 
@@ -19,6 +25,26 @@ const getRecentRecipes = createServerFn({ method: "GET" })
     return Recipes.getRecentlyUpdated(20);
   });
 
+const getSavedSearches = createServerFn({ method: "GET" })
+  .middleware([authMiddlewareEnsure])
+  .handler(async (ctx) => {
+    return SavedSearches.listByUser(ctx.context.user.id);
+  });
+
+const setSavedSearchNotify = createServerFn({ method: "POST" })
+  .middleware([authMiddlewareEnsure])
+  .validator((data: unknown) => savedSearchIdSchema.extend({ notify: z.boolean() }).parse(data))
+  .handler(async (ctx) => {
+    await SavedSearches.setNotify(ctx.data.savedSearchId, ctx.data.notify, ctx.context.user.id);
+  });
+
+const deleteSavedSearch = createServerFn({ method: "POST" })
+  .middleware([authMiddlewareEnsure])
+  .validator((data: unknown) => savedSearchIdSchema.parse(data))
+  .handler(async (ctx) => {
+    await SavedSearches.deleteSavedSearch(ctx.data.savedSearchId, ctx.context.user.id);
+  });
+
 export const Route = createFileRoute("/")({
   beforeLoad: async () => {
     const user = await getUserDetails();
@@ -32,14 +58,35 @@ export const Route = createFileRoute("/")({
       });
     }
 
-    const [tags, recentRecipes] = await Promise.all([getTags(), getRecentRecipes()]);
-    return { tags, recentRecipes };
+    const [tags, recentRecipes, savedSearches] = await Promise.all([getTags(), getRecentRecipes(), getSavedSearches()]);
+    return { tags, recentRecipes, savedSearches };
   },
   component: Home,
 });
 
 function Home() {
-  const { tags, recentRecipes } = Route.useLoaderData();
+  const { tags, recentRecipes, savedSearches } = Route.useLoaderData();
+  const router = useRouter();
+
+  const handleToggleNotify = async (savedSearchId: string, notify: boolean) => {
+    try {
+      await setSavedSearchNotify({ data: { savedSearchId, notify } });
+      router.invalidate();
+    } catch (error) {
+      console.error("Failed to update saved search:", error);
+      toast.error("Failed to update saved search");
+    }
+  };
+
+  const handleDeleteSavedSearch = async (savedSearchId: string) => {
+    try {
+      await deleteSavedSearch({ data: { savedSearchId } });
+      router.invalidate();
+    } catch (error) {
+      console.error("Failed to delete saved search:", error);
+      toast.error("Failed to delete saved search");
+    }
+  };
 
   return (
     <div className="space-y-6">
@@ -77,6 +124,48 @@ function Home() {
         </Link>
       </div>
 
+      {savedSearches.length > 0 && (
+        <div className="mt-12">
+          <h2 className="text-2xl font-semibold mb-4">Saved Searches</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {savedSearches.map((savedSearch) => (
+              <div key={savedSearch.id} className="p-4 border rounded-lg bg-card flex items-start justify-between">
+                <div className="flex-1 min-w-0">
+                  <Link
+                    to="/search"
+                    search={{ q: savedSearch.query, ...savedSearch.filters }}
+                    className="font-medium text-foreground hover:underline">
+                    {savedSearch.name}
+                  </Link>
+                  <div className="text-sm text-muted-foreground truncate">"{savedSearch.query}"</div>
+                  {savedSearch.notify && (
+                    <div className="text-xs text-muted-foreground mt-1">
+                      Notifies on new matches above {Math.round(savedSearch.notifyThreshold * 100)}% similarity
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 ml-4">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title={savedSearch.notify ? "Turn off notifications" : "Notify me about new matches"}
+                    onClick={() => handleToggleNotify(savedSearch.id, !savedSearch.notify)}>
+                    {savedSearch.notify ? <Bell className="h-4 w-4" /> : <BellOff className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Delete saved search"
+                    onClick={() => handleDeleteSavedSearch(savedSearch.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {(recentRecipes.length > 0 || tags.length > 0) && (
         <div className="mt-12">
           <h2 className="text-2xl font-semibold mb-4">Recent Changes</h2>
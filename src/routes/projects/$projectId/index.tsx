@@ -173,6 +173,14 @@ function ProjectDetail() {
                 <CardDescription>Configure this endpoint in Cursor or Claude</CardDescription>
               </CardHeader>
               <CardContent className="space-y-6">
+                <p className="text-sm text-muted-foreground">
+                  The MCP server requires an API key. Create one under{" "}
+                  <Link to="/settings/api-keys" className="text-blue-600 underline">
+                    Settings → API Keys
+                  </Link>{" "}
+                  and send it as a bearer token.
+                </p>
+
                 <div className="space-y-2">
                   <div className="text-sm font-medium">Cursor</div>
                   <p className="text-sm text-muted-foreground">
@@ -183,7 +191,10 @@ function ProjectDetail() {
   "mcpServers": {
     "Neural Kitchen": {
       "type": "http",
-      "url": "${mcpEndpoint}"
+      "url": "${mcpEndpoint}",
+      "headers": {
+        "Authorization": "Bearer <your API key>"
+      }
     }
   }
 }`}</code>
@@ -192,7 +203,9 @@ function ProjectDetail() {
 
                 <div className="space-y-2">
                   <div className="text-sm font-medium">Claude.ai / Claude Desktop</div>
-                  <p className="text-sm text-muted-foreground">Add a custom connector and set the server URL to:</p>
+                  <p className="text-sm text-muted-foreground">
+                    Add a custom connector with the API key as bearer token and set the server URL to:
+                  </p>
                   <div className="text-sm font-mono break-all">{mcpEndpoint}</div>
                 </div>
               </CardContent>
@@ -1,41 +1,160 @@
-import { createFileRoute, Link, redirect } from "@tanstack/react-router";
+import { createFileRoute, Link, redirect, useNavigate } from "@tanstack/react-router";
 import { createServerFn } from "@tanstack/react-start";
-import { AlertCircle, CheckCircle, Clock, RefreshCw, RotateCcw } from "lucide-react";
-import { useState } from "react";
+import { zodValidator } from "@tanstack/zod-adapter";
+import {
+  AlertCircle,
+  CheckCircle,
+  Clock,
+  Database,
+  Loader2,
+  Pause,
+  Play,
+  Radio,
+  RefreshCw,
+  RotateCcw,
+  Server,
+  XCircle,
+} from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
 import { toast } from "sonner";
+import { z } from "zod";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "~/components/ui/alert-dialog";
+import { Badge } from "~/components/ui/badge";
 import { Button } from "~/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
 import { authMiddlewareEnsure } from "~/lib/auth-middleware";
 import { getUserDetails } from "~/lib/auth-server-user";
 import { Queue } from "~/lib/data/queue";
+import { VecDocuments } from "~/lib/data/vecDocuments";
+import { type JobType, jobTypeSchema } from "~/lib/dataValidators";
 import { formatDateTime } from "~/lib/dateUtils";
+import { AIProviders } from "~/lib/services/aiProviders";
+
+const JOB_TYPE_LABELS: Record<JobType, string> = {
+  "process-recipe": "Recipe processing",
+  "notify-saved-searches": "Saved search notifications",
+  "reindex-recipes": "Re-embedding",
+};
+
+const STEP_LABELS: Record<string, string> = {
+  summary: "Summary",
+  embedding: "Embedding",
+};
+
+const queueSearchSchema = z.object({
+  type: jobTypeSchema.optional(),
+});
+
+// The dashboard polls for changes while it is open
+const LIVE_REFRESH_MS = 3 * 1000;
+
+// Processors send a heartbeat every few seconds, one that stayed silent longer is considered gone
+const WORKER_TIMEOUT_MS = 30 * 1000;
+
+// Throughput charts cover the last hour in 5-minute bars
+const THROUGHPUT_WINDOW_MINUTES = 60;
+const THROUGHPUT_INTERVAL_MINUTES = 5;
 
 // Server functions
 const getQueueItems = createServerFn({ method: "GET" })
   .middleware([authMiddlewareEnsure])
-  .handler(async () => {
-    const [errors, pending, completed] = await Promise.all([
-      Queue.getRecentErrors(10),
-      Queue.getPending(20),
-      Queue.getRecentCompleted(10),
+  .validator((data: unknown) => queueSearchSchema.parse(data))
+  .handler(async ({ data }) => {
+    const now = Date.now();
+    const [errors, pending, processing, completed, stats, throughput, workers, isPaused] = await Promise.all([
+      Queue.getRecentErrors(10, data.type),
+      Queue.getPending(20, data.type),
+      Queue.getProcessing(20, data.type),
+      Queue.getRecentCompleted(10, data.type),
+      Queue.getStats(data.type),
+      Queue.getThroughput(
+        new Date(now - THROUGHPUT_WINDOW_MINUTES * 60 * 1000),
+        THROUGHPUT_INTERVAL_MINUTES,
+        data.type,
+      ),
+      Queue.listWorkers(new Date(now - WORKER_TIMEOUT_MS)),
+      Queue.isPaused(),
     ]);
-    return { errors, pending, completed };
+    return { errors, pending, processing, completed, stats, throughput, workers, isPaused };
+  });
+
+const getEmbeddingStatus = createServerFn({ method: "GET" })
+  .middleware([authMiddlewareEnsure])
+  .handler(async () => {
+    return VecDocuments.getEmbeddingStatus(AIProviders.getEmbeddingModelName());
   });
 
 const retryQueueItem = createServerFn({ method: "POST" })
   .middleware([authMiddlewareEnsure])
-  .validator((data: unknown) => {
-    const parsed = data as { id: string };
-    return { id: parsed.id };
-  })
-  .handler(async ({ data }) => {
-    return Queue.retry(data.id);
+  .validator((data: unknown) => z.object({ id: z.string() }).parse(data))
+  .handler(async (ctx) => {
+    if (ctx.context.user.role !== "admin") {
+      throw new Error("Only admins can retry queue items");
+    }
+    return Queue.retry(ctx.data.id, ctx.context.user.id);
   });
 
 const retryAllErrors = createServerFn({ method: "POST" })
   .middleware([authMiddlewareEnsure])
-  .handler(async () => {
-    return Queue.retryAllErrors();
+  .validator((data: unknown) => queueSearchSchema.parse(data))
+  .handler(async ({ data }) => {
+    return Queue.retryAllErrors(data.type);
+  });
+
+const reembedAllRecipes = createServerFn({ method: "POST" })
+  .middleware([authMiddlewareEnsure])
+  .handler(async (ctx) => {
+    if (ctx.context.user.role !== "admin") {
+      throw new Error("Only admins can re-embed all recipes");
+    }
+    // The background worker queues every recipe, so large libraries do not block the request
+    const job = await Queue.add(
+      "reindex-recipes",
+      {},
+      { title: "Re-embed all recipes", status: "pending" },
+      ctx.context.user.id,
+    );
+    return { id: job.id };
+  });
+
+const setQueuePaused = createServerFn({ method: "POST" })
+  .middleware([authMiddlewareEnsure])
+  .validator((data: unknown) => z.object({ paused: z.boolean() }).parse(data))
+  .handler(async (ctx) => {
+    if (ctx.context.user.role !== "admin") {
+      throw new Error("Only admins can pause and resume the queue");
+    }
+    await Queue.setPaused(ctx.data.paused);
+    return { paused: ctx.data.paused };
+  });
+
+const cancelQueueItem = createServerFn({ method: "POST" })
+  .middleware([authMiddlewareEnsure])
+  .validator((data: unknown) => z.object({ id: z.string() }).parse(data))
+  .handler(async (ctx) => {
+    if (ctx.context.user.role !== "admin") {
+      throw new Error("Only admins can cancel queue items");
+    }
+    return Queue.cancel(ctx.data.id, ctx.context.user.id);
+  });
+
+const cancelAllPending = createServerFn({ method: "POST" })
+  .middleware([authMiddlewareEnsure])
+  .validator((data: unknown) => queueSearchSchema.parse(data))
+  .handler(async (ctx) => {
+    if (ctx.context.user.role !== "admin") {
+      throw new Error("Only admins can cancel queue items");
+    }
+    return Queue.cancelAllPending(ctx.data.type, ctx.context.user.id);
   });
 
 export const Route = createFileRoute("/queue")({
@@ -44,7 +163,9 @@ export const Route = createFileRoute("/queue")({
     return { user };
   },
   component: QueuePage,
-  loader: async ({ context }) => {
+  validateSearch: zodValidator(queueSearchSchema),
+  loaderDeps: ({ search: { type } }) => ({ type }),
+  loader: async ({ context, deps }) => {
     if (!context?.user?.id) {
       throw redirect({
         to: "/login",
@@ -52,22 +173,68 @@ export const Route = createFileRoute("/queue")({
       });
     }
 
-    return getQueueItems();
+    const [queue, embeddingStatus] = await Promise.all([getQueueItems({ data: deps }), getEmbeddingStatus()]);
+    return { queue, embeddingStatus, currentUserRole: context?.user?.role };
   },
 });
 
 function QueuePage() {
-  const { errors, pending, completed } = Route.useLoaderData();
+  const navigate = useNavigate();
+  const { type } = Route.useSearch();
+  const { queue: loadedQueue, embeddingStatus: loadedEmbeddingStatus, currentUserRole } = Route.useLoaderData();
+  const [queue, setQueue] = useState(loadedQueue);
+  const [embeddingStatus, setEmbeddingStatus] = useState(loadedEmbeddingStatus);
   const [isRetrying, setIsRetrying] = useState<string | null>(null);
   const [isRetryingAll, setIsRetryingAll] = useState(false);
+  const [isCancelling, setIsCancelling] = useState<string | null>(null);
+  const [isCancellingAll, setIsCancellingAll] = useState(false);
+  const [isTogglingPause, setIsTogglingPause] = useState(false);
+  const [showReembedDialog, setShowReembedDialog] = useState(false);
+  const [isReembedding, setIsReembedding] = useState(false);
+  const { errors, pending, processing, completed, stats, throughput, workers, isPaused } = queue;
+  const isAdmin = currentUserRole === "admin";
+  const embeddedPercent =
+    embeddingStatus.recipes > 0 ? Math.round((embeddingStatus.embedded / embeddingStatus.recipes) * 100) : 100;
+
+  // A changed job type filter loads new data
+  useEffect(() => {
+    setQueue(loadedQueue);
+    setEmbeddingStatus(loadedEmbeddingStatus);
+  }, [loadedQueue, loadedEmbeddingStatus]);
+
+  // Re-embedding progress is polled with the queue
+  const refresh = useCallback(async () => {
+    try {
+      const [nextQueue, nextEmbeddingStatus] = await Promise.all([
+        getQueueItems({ data: { type } }),
+        getEmbeddingStatus(),
+      ]);
+      setQueue(nextQueue);
+      setEmbeddingStatus(nextEmbeddingStatus);
+    } catch (error) {
+      console.error("Failed to refresh queue items:", error);
+    }
+  }, [type]);
+
+  useEffect(() => {
+    const intervalId = setInterval(() => {
+      if (document.visibilityState === "visible") {
+        refresh();
+      }
+    }, LIVE_REFRESH_MS);
+    return () => clearInterval(intervalId);
+  }, [refresh]);
 
   const handleRetry = async (id: string) => {
     setIsRetrying(id);
     try {
-      await retryQueueItem({ data: { id } });
-      toast.success("Queue item retried successfully");
-      // Refresh the page data
-      window.location.reload();
+      const result = await retryQueueItem({ data: { id } });
+      if (result.count > 0) {
+        toast.success("Queue item retried successfully");
+      } else {
+        toast.error("The item is no longer in the dead-letter state");
+      }
+      await refresh();
     } catch (error) {
       console.error("Failed to retry queue item:", error);
       toast.error("Failed to retry queue item");
@@ -79,10 +246,9 @@ function QueuePage() {
   const handleRetryAll = async () => {
     setIsRetryingAll(true);
     try {
-      const result = await retryAllErrors();
+      const result = await retryAllErrors({ data: { type } });
       toast.success(`Retried ${result.count} queue items`);
-      // Refresh the page data
-      window.location.reload();
+      await refresh();
     } catch (error) {
       console.error("Failed to retry all errors:", error);
       toast.error("Failed to retry all errors");
@@ -91,36 +257,128 @@ function QueuePage() {
     }
   };
 
+  const handleCancel = async (id: string) => {
+    setIsCancelling(id);
+    try {
+      const result = await cancelQueueItem({ data: { id } });
+      if (result.count > 0) {
+        toast.success("Queue item cancelled");
+      } else {
+        toast.error("The item is already being processed");
+      }
+      await refresh();
+    } catch (error) {
+      console.error("Failed to cancel queue item:", error);
+      toast.error("Failed to cancel queue item");
+    } finally {
+      setIsCancelling(null);
+    }
+  };
+
+  const handleCancelAll = async () => {
+    setIsCancellingAll(true);
+    try {
+      const result = await cancelAllPending({ data: { type } });
+      toast.success(`Cancelled ${result.count} pending queue items`);
+      await refresh();
+    } catch (error) {
+      console.error("Failed to cancel pending queue items:", error);
+      toast.error("Failed to cancel pending queue items");
+    } finally {
+      setIsCancellingAll(false);
+    }
+  };
+
+  const handleTogglePause = async () => {
+    setIsTogglingPause(true);
+    try {
+      const result = await setQueuePaused({ data: { paused: !isPaused } });
+      toast.success(
+        result.paused
+          ? "Queue paused, items in progress are finished first"
+          : "Queue resumed, processing continues within a few seconds",
+      );
+      await refresh();
+    } catch (error) {
+      console.error("Failed to pause or resume the queue:", error);
+      toast.error("Failed to pause or resume the queue");
+    } finally {
+      setIsTogglingPause(false);
+    }
+  };
+
+  const handleReembedAll = async () => {
+    setIsReembedding(true);
+    try {
+      await reembedAllRecipes();
+      toast.success("Queued all recipes for re-embedding");
+      await refresh();
+    } catch (error) {
+      console.error("Failed to queue recipes for re-embedding:", error);
+      toast.error("Failed to queue recipes for re-embedding");
+    } finally {
+      setIsReembedding(false);
+      setShowReembedDialog(false);
+    }
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-3xl font-bold tracking-tight">Queue Management</h1>
-          <p className="text-muted-foreground">Monitor and manage background processing queue</p>
+          <p className="text-muted-foreground flex items-center">
+            <Radio className="h-4 w-4 mr-2 text-green-500 animate-pulse" />
+            Live view of the background processing queue
+          </p>
         </div>
-        {errors.length > 0 && (
+        <div className="flex items-center space-x-2">
+          {isAdmin && (
+            <Button onClick={handleTogglePause} disabled={isTogglingPause} variant="outline">
+              {isPaused ? <Play className="h-4 w-4 mr-2" /> : <Pause className="h-4 w-4 mr-2" />}
+              {isPaused ? "Resume Processing" : "Pause Processing"}
+            </Button>
+          )}
+          {stats.dead > 0 && (
+            <Button
+              onClick={handleRetryAll}
+              disabled={isRetryingAll}
+              variant="outline"
+              className="text-orange-600 border-orange-600 hover:bg-orange-50 dark:hover:bg-orange-950">
+              <RotateCcw className="h-4 w-4 mr-2" />
+              {isRetryingAll ? "Retrying All..." : `Retry All Errors (${stats.dead})`}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Job Type Filter */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant={type ? "outline" : "default"} size="sm" onClick={() => navigate({ to: "/queue", search: {} })}>
+          All jobs
+        </Button>
+        {jobTypeSchema.options.map((option) => (
           <Button
-            onClick={handleRetryAll}
-            disabled={isRetryingAll}
-            variant="outline"
-            className="text-orange-600 border-orange-600 hover:bg-orange-50 dark:hover:bg-orange-950">
-            <RotateCcw className="h-4 w-4 mr-2" />
-            {isRetryingAll ? "Retrying All..." : `Retry All Errors (${errors.length})`}
+            key={option}
+            variant={option === type ? "default" : "outline"}
+            size="sm"
+            onClick={() => navigate({ to: "/queue", search: { type: option } })}>
+            {JOB_TYPE_LABELS[option]}
           </Button>
-        )}
+        ))}
       </div>
 
       {/* Stats Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Errors</CardTitle>
             <AlertCircle className="h-4 w-4 text-destructive" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-destructive">{errors.length}</div>
-            <p className="text-xs text-muted-foreground">Recent failed items</p>
+            <div className="text-2xl font-bold text-destructive">{stats.dead}</div>
+            <p className="text-xs text-muted-foreground">Out of retry attempts</p>
           </CardContent>
         </Card>
         <Card>
@@ -129,22 +387,88 @@ function QueuePage() {
             <Clock className="h-4 w-4 text-orange-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-orange-600">{pending.length}</div>
+            <div className="text-2xl font-bold text-orange-600">{stats.pending}</div>
             <p className="text-xs text-muted-foreground">Awaiting processing</p>
           </CardContent>
         </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Processing</CardTitle>
+            <Loader2 className="h-4 w-4 text-blue-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-blue-600">{stats.processing}</div>
+            <p className="text-xs text-muted-foreground">Being processed right now</p>
+          </CardContent>
+        </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Completed</CardTitle>
             <CheckCircle className="h-4 w-4 text-green-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-green-600">{completed.length}</div>
-            <p className="text-xs text-muted-foreground">Recently completed</p>
+            <div className="text-2xl font-bold text-green-600">{stats.completed}</div>
+            <p className="text-xs text-muted-foreground">Successfully processed</p>
           </CardContent>
         </Card>
       </div>
 
+      {/* Processor Status and Throughput */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <ProcessorStatus workers={workers} isPaused={isPaused} />
+        <ThroughputChart throughput={throughput} />
+      </div>
+
+      {/* Embedding Status */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center">
+              <Database className="h-5 w-5 mr-2" />
+              Embeddings
+            </CardTitle>
+            <CardDescription>
+              Search only compares recipes embedded with the current model{" "}
+              <span className="font-mono">{embeddingStatus.embeddingModel}</span>
+            </CardDescription>
+          </div>
+          {isAdmin && (
+            <Button variant="outline" size="sm" onClick={() => setShowReembedDialog(true)} disabled={isReembedding}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isReembedding ? "animate-spin" : ""}`} />
+              Re-embed Everything
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span>
+                {embeddingStatus.embedded} of {embeddingStatus.recipes} recipes embedded with the current model
+              </span>
+              <span className="text-muted-foreground">{embeddedPercent}%</span>
+            </div>
+            <div className="h-2 rounded bg-muted">
+              <div className="h-2 rounded bg-primary" style={{ width: `${embeddedPercent}%` }} />
+            </div>
+          </div>
+          {embeddingStatus.models.length > 0 && (
+            <div className="space-y-1">
+              {embeddingStatus.models.map((model) => (
+                <div
+                  key={`${model.embeddingModel}-${model.dimensions}`}
+                  className="flex items-center justify-between text-sm text-muted-foreground">
+                  <span className="font-mono">
+                    {model.embeddingModel ?? "unknown model"}
+                    {model.dimensions ? ` (${model.dimensions} dimensions)` : ""}
+                  </span>
+                  <span>{model.count} chunks</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Error Items */}
       {errors.length > 0 && (
         <Card>
@@ -153,7 +477,7 @@ function QueuePage() {
               <AlertCircle className="h-5 w-5 mr-2" />
               Recent Errors
             </CardTitle>
-            <CardDescription>Items that failed processing and can be retried</CardDescription>
+            <CardDescription>Items that failed every attempt and can be retried manually</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
@@ -162,31 +486,28 @@ function QueuePage() {
                   key={item.id}
                   className="flex items-center justify-between p-3 border border-destructive/20 rounded-lg bg-destructive/5">
                   <div className="flex-1">
-                    <div className="flex items-center space-x-2">
-                      <Link
-                        to="/recipes/$recipeId"
-                        params={{ recipeId: item.recipeVersion.recipe.id }}
-                        className="font-medium text-primary hover:underline">
-                        {item.recipeVersion.title}
-                      </Link>
-                      <span className="text-sm text-muted-foreground">(v{item.recipeVersion.versionNumber})</span>
+                    <QueueItemTitle item={item} />
+                    <QueueItemSteps steps={item.steps} />
+                    <div className="text-sm text-muted-foreground mt-1">
+                      Failed after {item.attempts} attempts: {formatDateTime(item.updatedAt)}
                     </div>
-                    <div className="text-sm text-muted-foreground mt-1">Failed: {formatDateTime(item.updatedAt)}</div>
                     {item.error && (
                       <div className="text-xs text-destructive mt-1 font-mono bg-destructive/10 p-2 rounded">
                         {item.error}
                       </div>
                     )}
                   </div>
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={() => handleRetry(item.id)}
-                    disabled={isRetrying === item.id}
-                    className="ml-4">
-                    <RefreshCw className={`h-4 w-4 mr-2 ${isRetrying === item.id ? "animate-spin" : ""}`} />
-                    {isRetrying === item.id ? "Retrying..." : "Retry"}
-                  </Button>
+                  {isAdmin && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRetry(item.id)}
+                      disabled={isRetrying === item.id}
+                      className="ml-4">
+                      <RefreshCw className={`h-4 w-4 mr-2 ${isRetrying === item.id ? "animate-spin" : ""}`} />
+                      {isRetrying === item.id ? "Retrying..." : "Retry"}
+                    </Button>
+                  )}
                 </div>
               ))}
             </div>
@@ -194,15 +515,57 @@ function QueuePage() {
         </Card>
       )}
 
-      {/* Pending Items */}
-      {pending.length > 0 && (
+      {/* Processing Items */}
+      {processing.length > 0 && (
         <Card>
           <CardHeader>
-            <CardTitle className="flex items-center text-orange-600">
-              <Clock className="h-5 w-5 mr-2" />
-              Pending Items
+            <CardTitle className="flex items-center text-blue-600">
+              <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+              Processing
             </CardTitle>
-            <CardDescription>Items waiting to be processed</CardDescription>
+            <CardDescription>Items a queue processor is working on</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {processing.map((item) => (
+                <div
+                  key={item.id}
+                  className="flex items-center justify-between p-3 border border-blue-200 rounded-lg bg-blue-50 dark:bg-blue-950/20 dark:border-blue-800">
+                  <div className="flex-1">
+                    <QueueItemTitle item={item} />
+                    <QueueItemSteps steps={item.steps} />
+                    <div className="text-sm text-muted-foreground mt-1">
+                      Attempt {item.attempts}, started: {formatDateTime(item.updatedAt)}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2 text-blue-600">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    <span className="text-sm">Processing</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Pending Items */}
+      {pending.length > 0 && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center text-orange-600">
+                <Clock className="h-5 w-5 mr-2" />
+                Pending Items
+              </CardTitle>
+              <CardDescription>Items waiting to be processed</CardDescription>
+            </div>
+            {isAdmin && (
+              <Button variant="outline" size="sm" onClick={handleCancelAll} disabled={isCancellingAll}>
+                <XCircle className="h-4 w-4 mr-2" />
+                {isCancellingAll ? "Cancelling..." : `Cancel All Pending (${stats.pending})`}
+              </Button>
+            )}
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
@@ -211,21 +574,36 @@ function QueuePage() {
                   key={item.id}
                   className="flex items-center justify-between p-3 border border-orange-200 rounded-lg bg-orange-50 dark:bg-orange-950/20 dark:border-orange-800">
                   <div className="flex-1">
-                    <div className="flex items-center space-x-2">
-                      <Link
-                        to="/recipes/$recipeId"
-                        params={{ recipeId: item.recipeVersion.recipe.id }}
-                        className="font-medium text-primary hover:underline">
-                        {item.recipeVersion.title}
-                      </Link>
-                      <span className="text-sm text-muted-foreground">(v{item.recipeVersion.versionNumber})</span>
-                    </div>
+                    <QueueItemTitle item={item} />
+                    <QueueItemSteps steps={item.steps} />
                     <div className="text-sm text-muted-foreground mt-1">Queued: {formatDateTime(item.createdAt)}</div>
+                    {item.attempts > 0 && (
+                      <div className="text-sm text-muted-foreground mt-1">
+                        Attempt {item.attempts} failed, retrying after {formatDateTime(item.runAfter)}
+                      </div>
+                    )}
+                    {item.error && (
+                      <div className="text-xs text-orange-700 dark:text-orange-400 mt-1 font-mono bg-orange-100 dark:bg-orange-950/40 p-2 rounded">
+                        {item.error}
+                      </div>
+                    )}
                   </div>
-                  <div className="flex items-center space-x-2 text-orange-600">
-                    <Clock className="h-4 w-4" />
-                    <span className="text-sm">Pending</span>
-                  </div>
+                  {isAdmin ? (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleCancel(item.id)}
+                      disabled={isCancelling === item.id}
+                      className="ml-4">
+                      <XCircle className="h-4 w-4 mr-2" />
+                      {isCancelling === item.id ? "Cancelling..." : "Cancel"}
+                    </Button>
+                  ) : (
+                    <div className="flex items-center space-x-2 text-orange-600">
+                      <Clock className="h-4 w-4" />
+                      <span className="text-sm">Pending</span>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -250,15 +628,8 @@ function QueuePage() {
                   key={item.id}
                   className="flex items-center justify-between p-3 border border-green-200 rounded-lg bg-green-50 dark:bg-green-950/20 dark:border-green-800">
                   <div className="flex-1">
-                    <div className="flex items-center space-x-2">
-                      <Link
-                        to="/recipes/$recipeId"
-                        params={{ recipeId: item.recipeVersion.recipe.id }}
-                        className="font-medium text-primary hover:underline">
-                        {item.recipeVersion.title}
-                      </Link>
-                      <span className="text-sm text-muted-foreground">(v{item.recipeVersion.versionNumber})</span>
-                    </div>
+                    <QueueItemTitle item={item} />
+                    <QueueItemSteps steps={item.steps} />
                     <div className="text-sm text-muted-foreground mt-1">
                       Completed: {formatDateTime(item.updatedAt)}
                     </div>
@@ -275,7 +646,7 @@ function QueuePage() {
       )}
 
       {/* Empty State */}
-      {errors.length === 0 && pending.length === 0 && completed.length === 0 && (
+      {errors.length === 0 && processing.length === 0 && pending.length === 0 && completed.length === 0 && (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12 text-center">
             <CheckCircle className="h-12 w-12 text-muted-foreground mb-4" />
@@ -287,6 +658,203 @@ function QueuePage() {
           </CardContent>
         </Card>
       )}
+
+      <AlertDialog open={showReembedDialog} onOpenChange={setShowReembedDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Re-embed Everything</AlertDialogTitle>
+            <AlertDialogDescription>
+              The current version of every recipe is queued and embedded again with the configured embedding model.
+              Summaries are kept. This can take a while and uses API credits for each recipe.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isReembedding}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleReembedAll} disabled={isReembedding}>
+              {isReembedding ? "Queueing..." : "Queue All Recipes"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+/**
+ * Show the queue processors that are running, from the status they report with every heartbeat
+ */
+function ProcessorStatus({
+  workers,
+  isPaused,
+}: {
+  workers: Array<{
+    id: string;
+    hostname: string;
+    pid: number;
+    concurrency: number;
+    activeItems: number;
+    startedAt: Date;
+  }>;
+  isPaused: boolean;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Server className="h-5 w-5 mr-2" />
+          Processors
+          {isPaused && (
+            <Badge variant="secondary" className="ml-2">
+              <Pause />
+              Paused
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          {isPaused
+            ? "Processing is paused, pending items wait until it is resumed"
+            : "Background processes working on the queue"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {workers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No queue processor is running. Start the background tasks to process the queue.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {workers.map((worker) => (
+              <div key={worker.id} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-mono">
+                    {worker.hostname} (pid {worker.pid})
+                  </span>
+                  <span className="text-muted-foreground">
+                    {worker.activeItems} of {worker.concurrency} workers busy
+                  </span>
+                </div>
+                <div className="h-2 rounded bg-muted">
+                  <div
+                    className="h-2 rounded bg-blue-500"
+                    style={{ width: `${(worker.activeItems / Math.max(1, worker.concurrency)) * 100}%` }}
+                  />
+                </div>
+                <div className="text-xs text-muted-foreground">Running since {formatDateTime(worker.startedAt)}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Chart the completed and dead-letter items of the last hour, with the error rate
+ */
+function ThroughputChart({ throughput }: { throughput: Array<{ bucket: Date; completed: number; dead: number }> }) {
+  // Fill in the intervals without finished items, the server only returns intervals that have some
+  const intervalMs = THROUGHPUT_INTERVAL_MINUTES * 60 * 1000;
+  const lastBucket = Math.floor(Date.now() / intervalMs) * intervalMs;
+  const countsByBucket = new Map(throughput.map((row) => [new Date(row.bucket).getTime(), row]));
+  const bars = Array.from({ length: THROUGHPUT_WINDOW_MINUTES / THROUGHPUT_INTERVAL_MINUTES }, (_, index) => {
+    const bucket = lastBucket - (THROUGHPUT_WINDOW_MINUTES / THROUGHPUT_INTERVAL_MINUTES - 1 - index) * intervalMs;
+    const row = countsByBucket.get(bucket);
+    return { bucket, completed: row?.completed ?? 0, dead: row?.dead ?? 0 };
+  });
+
+  const totalCompleted = bars.reduce((sum, bar) => sum + bar.completed, 0);
+  const totalDead = bars.reduce((sum, bar) => sum + bar.dead, 0);
+  const maxCount = Math.max(1, ...bars.map((bar) => bar.completed + bar.dead));
+  const errorRate = totalCompleted + totalDead > 0 ? Math.round((totalDead / (totalCompleted + totalDead)) * 100) : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Throughput</CardTitle>
+        <CardDescription>
+          {totalCompleted} completed and {totalDead} out of attempts in the last {THROUGHPUT_WINDOW_MINUTES} minutes,{" "}
+          {errorRate}% error rate
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-end h-32 gap-1">
+          {bars.map((bar) => (
+            <div
+              key={bar.bucket}
+              className="flex-1 flex flex-col justify-end h-full"
+              title={`${formatDateTime(new Date(bar.bucket))}: ${bar.completed} completed, ${bar.dead} out of attempts`}>
+              <div className="bg-destructive rounded-t" style={{ height: `${(bar.dead / maxCount) * 100}%` }} />
+              <div className="bg-green-500" style={{ height: `${(bar.completed / maxCount) * 100}%` }} />
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-muted-foreground mt-2">
+          <span>{THROUGHPUT_WINDOW_MINUTES} minutes ago</span>
+          <span>Now</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Show a queue item with its job type, linked to the recipe version it is about
+ */
+function QueueItemTitle({
+  item,
+}: {
+  item: {
+    type: string;
+    title: string;
+    recipeVersion: { title: string; versionNumber: number; recipe: { id: string } } | null;
+  };
+}) {
+  return (
+    <div className="flex items-center space-x-2">
+      {item.recipeVersion ? (
+        <>
+          <Link
+            to="/recipes/$recipeId"
+            params={{ recipeId: item.recipeVersion.recipe.id }}
+            className="font-medium text-primary hover:underline">
+            {item.recipeVersion.title}
+          </Link>
+          <span className="text-sm text-muted-foreground">(v{item.recipeVersion.versionNumber})</span>
+        </>
+      ) : (
+        <span className="font-medium">{item.title}</span>
+      )}
+      <Badge variant="outline">{JOB_TYPE_LABELS[item.type as JobType] ?? item.type}</Badge>
+    </div>
+  );
+}
+
+/**
+ * Show the steps of a queue item, each step is retried on its own
+ */
+function QueueItemSteps({
+  steps,
+}: {
+  steps: Array<{ id: string; name: string; status: string; error: string | null }>;
+}) {
+  if (steps.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-2">
+      {steps.map((step) => (
+        <Badge
+          key={step.id}
+          variant={step.status === "failed" ? "destructive" : "secondary"}
+          title={step.error ?? undefined}>
+          {step.status === "completed" && <CheckCircle />}
+          {step.status === "failed" && <AlertCircle />}
+          {step.status === "pending" && <Clock />}
+          {STEP_LABELS[step.name] ?? step.name}
+        </Badge>
+      ))}
     </div>
   );
 }
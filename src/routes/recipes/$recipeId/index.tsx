@@ -33,11 +33,14 @@ const getRecipe = createServerFn({ method: "GET" })
   .middleware([authMiddlewareEnsure])
   .validator((data: unknown) => recipeIdSchema.parse(data))
   .handler(async (ctx) => {
-    const recipe = await Recipes.read(ctx.data.recipeId);
+    const [recipe, pendingProposals] = await Promise.all([
+      Recipes.read(ctx.data.recipeId),
+      Recipes.countPendingProposals(ctx.data.recipeId),
+    ]);
     if (!recipe) {
       throw new Error("Recipe not found");
     }
-    return recipe;
+    return { ...recipe, pendingProposals };
   });
 
 const deleteRecipe = createServerFn({ method: "POST" })
@@ -132,6 +135,20 @@ function RecipeDetail() {
         </div>
       </div>
 
+      {/* Pending proposals */}
+      {recipe.pendingProposals > 0 && (
+        <div className="flex items-center justify-between rounded-md border border-yellow-500/50 bg-yellow-500/10 px-4 py-3 text-sm">
+          <span>
+            {recipe.pendingProposals} proposed edit{recipe.pendingProposals === 1 ? "" : "s"} waiting for review
+          </span>
+          <Link to="/reviews">
+            <Button variant="outline" size="sm">
+              Review
+            </Button>
+          </Link>
+        </div>
+      )}
+
       {/* Content Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
         {/* Main Content */}
@@ -0,0 +1,166 @@
+import { createFileRoute, Link, redirect, useRouter } from "@tanstack/react-router";
+import { createServerFn } from "@tanstack/react-start";
+import { AlertTriangle, Check, ClipboardCheck, X } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { DiffView } from "~/components/DiffView";
+import { MarkdownRenderer } from "~/components/MarkdownRenderer";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { authMiddlewareEnsure } from "~/lib/auth-middleware";
+import { getUserDetails } from "~/lib/auth-server-user";
+import { Recipes } from "~/lib/data/recipes";
+import { acceptProposalSchema, recipeVersionIdSchema } from "~/lib/dataValidators";
+import { formatDateTime } from "~/lib/dateUtils";
+
+// Server functions
+const getPendingProposals = createServerFn({ method: "GET" })
+  .middleware([authMiddlewareEnsure])
+  .handler(async () => {
+    return Recipes.listPendingProposals();
+  });
+
+const acceptProposal = createServerFn({ method: "POST" })
+  .middleware([authMiddlewareEnsure])
+  .validator((data: unknown) => acceptProposalSchema.parse(data))
+  .handler(async (ctx) => {
+    return Recipes.acceptProposal(ctx.data.versionId, ctx.context.user?.id, ctx.data.overwrite);
+  });
+
+const rejectProposal = createServerFn({ method: "POST" })
+  .middleware([authMiddlewareEnsure])
+  .validator((data: unknown) => recipeVersionIdSchema.parse(data))
+  .handler(async (ctx) => {
+    return Recipes.rejectProposal(ctx.data.versionId, ctx.context.user?.id);
+  });
+
+export const Route = createFileRoute("/reviews")({
+  beforeLoad: async () => {
+    const user = await getUserDetails();
+    return { user };
+  },
+  component: ReviewsPage,
+  loader: async ({ context }) => {
+    if (!context?.user?.id) {
+      throw redirect({
+        to: "/login",
+        search: { redirect: "/reviews" },
+      });
+    }
+
+    return getPendingProposals();
+  },
+});
+
+function ReviewsPage() {
+  const proposals = Route.useLoaderData();
+  const router = useRouter();
+  const [isReviewing, setIsReviewing] = useState<string | null>(null);
+
+  const handleReview = async (versionId: string, decision: "accept" | "reject", overwrite = false) => {
+    setIsReviewing(versionId);
+    try {
+      if (decision === "accept") {
+        await acceptProposal({ data: { versionId, overwrite } });
+        toast.success("Proposal accepted");
+      } else {
+        await rejectProposal({ data: { versionId } });
+        toast.success("Proposal rejected");
+      }
+      router.invalidate();
+    } catch (error) {
+      console.error(`Failed to ${decision} proposal:`, error);
+      toast.error(`Failed to ${decision} proposal`);
+    } finally {
+      setIsReviewing(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Reviews</h1>
+        <p className="text-muted-foreground">Recipes and edits proposed by AI agents, waiting for review</p>
+      </div>
+
+      {proposals.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <ClipboardCheck className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">No proposals waiting for review</p>
+          </CardContent>
+        </Card>
+      ) : (
+        proposals.map((proposal) => {
+          const currentVersion = proposal.recipe.currentVersion;
+          // The recipe was saved again after this edit was proposed, accepting it replaces those changes
+          const isOutdated = !!proposal.baseVersionId && proposal.baseVersionId !== proposal.recipe.currentVersionId;
+
+          return (
+            <div key={proposal.id} className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle>
+                        {currentVersion ? (
+                          <Link
+                            to="/recipes/$recipeId"
+                            params={{ recipeId: proposal.recipeId }}
+                            className="hover:underline">
+                            {proposal.title}
+                          </Link>
+                        ) : (
+                          proposal.title
+                        )}
+                      </CardTitle>
+                      <CardDescription>
+                        {currentVersion ? `Edit proposed as ${proposal.versionId}` : "New recipe proposed"} •{" "}
+                        <span className="font-mono">{proposal.recipe.shortId}</span> • by{" "}
+                        {proposal.createdByUser?.name || "Unknown"} on {formatDateTime(proposal.createdAt)}
+                      </CardDescription>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleReview(proposal.id, "reject")}
+                        disabled={isReviewing === proposal.id}>
+                        <X className="h-4 w-4 mr-2" />
+                        Reject
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant={isOutdated ? "destructive" : "default"}
+                        onClick={() => handleReview(proposal.id, "accept", isOutdated)}
+                        disabled={isReviewing === proposal.id}>
+                        <Check className="h-4 w-4 mr-2" />
+                        {isOutdated ? "Accept anyway" : "Accept"}
+                      </Button>
+                    </div>
+                  </div>
+                  {proposal.comment && <div className="text-sm italic text-muted-foreground">"{proposal.comment}"</div>}
+                  {isOutdated && currentVersion && (
+                    <div className="flex items-center gap-2 text-sm text-destructive">
+                      <AlertTriangle className="h-4 w-4" />
+                      The recipe changed after this edit was proposed. Accepting it replaces {currentVersion.versionId}{" "}
+                      and the changes made since.
+                    </div>
+                  )}
+                </CardHeader>
+                {!currentVersion && (
+                  <CardContent>
+                    <MarkdownRenderer content={proposal.content} variant="default" />
+                  </CardContent>
+                )}
+              </Card>
+
+              {currentVersion && <DiffView version1={currentVersion} version2={proposal} />}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
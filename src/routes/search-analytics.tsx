@@ -0,0 +1,257 @@
+import { createFileRoute, Link, redirect, useNavigate } from "@tanstack/react-router";
+import { createServerFn } from "@tanstack/react-start";
+import { zodValidator } from "@tanstack/zod-adapter";
+import { BarChart3, SearchX, TrendingDown, TrendingUp } from "lucide-react";
+import { z } from "zod";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "~/components/ui/table";
+import { authMiddlewareEnsure } from "~/lib/auth-middleware";
+import { getUserDetails } from "~/lib/auth-server-user";
+import { SearchQueries } from "~/lib/data/searchQueries";
+import { formatDateTime } from "~/lib/dateUtils";
+
+const RANGE_OPTIONS = [7, 30, 90];
+
+// Queries whose closest recipe is below this vector similarity are reported as poorly covered
+const LOW_SIMILARITY = 0.5;
+
+const SOURCE_LABELS: Record<string, string> = {
+  web: "Search page",
+  mcp: "MCP agents",
+};
+
+const searchAnalyticsSchema = z.object({
+  days: z.number().optional().default(30),
+});
+
+const getSearchAnalytics = createServerFn({ method: "GET" })
+  .middleware([authMiddlewareEnsure])
+  .validator((data: unknown) => searchAnalyticsSchema.parse(data))
+  .handler(async ({ data }) => {
+    const since = new Date(Date.now() - data.days * 24 * 60 * 60 * 1000);
+    const [summary, topQueries, zeroResultQueries, lowSimilarityQueries] = await Promise.all([
+      SearchQueries.getSummary(since),
+      SearchQueries.getTopQueries(since),
+      SearchQueries.getZeroResultQueries(since),
+      SearchQueries.getLowSimilarityQueries(since, LOW_SIMILARITY),
+    ]);
+    return { summary, topQueries, zeroResultQueries, lowSimilarityQueries };
+  });
+
+export const Route = createFileRoute("/search-analytics")({
+  beforeLoad: async () => {
+    const user = await getUserDetails();
+    return { user };
+  },
+  component: SearchAnalyticsPage,
+  validateSearch: zodValidator(searchAnalyticsSchema),
+  loaderDeps: ({ search: { days } }) => ({ days }),
+  loader: async ({ context, deps }) => {
+    if (!context?.user?.id) {
+      throw redirect({
+        to: "/login",
+        search: { redirect: "/search-analytics" },
+      });
+    }
+
+    return getSearchAnalytics({ data: deps });
+  },
+});
+
+function SearchAnalyticsPage() {
+  const navigate = useNavigate();
+  const { days } = Route.useSearch();
+  const { summary, topQueries, zeroResultQueries, lowSimilarityQueries } = Route.useLoaderData();
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Search Analytics</h1>
+          <p className="text-muted-foreground">What people and agents search for, and which recipes are missing</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          {RANGE_OPTIONS.map((option) => (
+            <Button
+              key={option}
+              variant={option === days ? "default" : "outline"}
+              size="sm"
+              onClick={() => navigate({ to: "/search-analytics", search: { days: option } })}>
+              {option} days
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {/* Summary per Source */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {summary.length === 0 ? (
+          <Card className="md:col-span-2">
+            <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+              <BarChart3 className="h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No searches in the last {days} days</p>
+            </CardContent>
+          </Card>
+        ) : (
+          summary.map((row) => (
+            <Card key={row.source}>
+              <CardHeader>
+                <CardTitle>{SOURCE_LABELS[row.source] ?? row.source}</CardTitle>
+                <CardDescription>Last {days} days</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-4 gap-4 text-center">
+                  <div>
+                    <div className="text-2xl font-bold">{row.searches}</div>
+                    <div className="text-xs text-muted-foreground">Searches</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold">{formatPercentage(row.zeroResults, row.searches)}</div>
+                    <div className="text-xs text-muted-foreground">Zero results</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold">{formatPercentage(row.clickedSearches, row.searches)}</div>
+                    <div className="text-xs text-muted-foreground">Click-through</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold">{row.averageLatencyMs} ms</div>
+                    <div className="text-xs text-muted-foreground">Avg. latency</div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+
+      {/* Top Queries */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <TrendingUp className="h-5 w-5" />
+            <span>Top Queries</span>
+          </CardTitle>
+          <CardDescription>The most frequent searches and how often a result was opened</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {topQueries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No searches yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Query</TableHead>
+                  <TableHead className="text-right">Searches</TableHead>
+                  <TableHead className="text-right">Avg. results</TableHead>
+                  <TableHead className="text-right">Click-throughs</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {topQueries.map((row) => (
+                  <TableRow key={row.query}>
+                    <TableCell>
+                      <Link to="/search" search={{ q: row.query }} className="font-medium hover:underline">
+                        "{row.query}"
+                      </Link>
+                      <div className="text-xs text-muted-foreground">Last: {formatDateTime(row.lastSearchedAt)}</div>
+                    </TableCell>
+                    <TableCell className="text-right">{row.count}</TableCell>
+                    <TableCell className="text-right">{row.averageResults}</TableCell>
+                    <TableCell className="text-right">{row.clicks}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Zero Result Queries */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <SearchX className="h-5 w-5" />
+              <span>Zero-Result Queries</span>
+            </CardTitle>
+            <CardDescription>Searches that found nothing, candidates for new recipes</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {zeroResultQueries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Every search found at least one recipe</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Query</TableHead>
+                    <TableHead className="text-right">Searches</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {zeroResultQueries.map((row) => (
+                    <TableRow key={row.query}>
+                      <TableCell>
+                        <div className="font-medium">"{row.query}"</div>
+                        <div className="text-xs text-muted-foreground">Last: {formatDateTime(row.lastSearchedAt)}</div>
+                      </TableCell>
+                      <TableCell className="text-right">{row.count}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Low Similarity Queries */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <TrendingDown className="h-5 w-5" />
+              <span>Low-Similarity Queries</span>
+            </CardTitle>
+            <CardDescription>
+              Searches where no recipe came within {Math.round(LOW_SIMILARITY * 100)}% similarity, the recipes found may
+              only be loosely related
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {lowSimilarityQueries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Every search found a closely matching recipe</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Query</TableHead>
+                    <TableHead className="text-right">Best match</TableHead>
+                    <TableHead className="text-right">Searches</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lowSimilarityQueries.map((row) => (
+                    <TableRow key={row.query}>
+                      <TableCell>
+                        <Link to="/search" search={{ q: row.query }} className="font-medium hover:underline">
+                          "{row.query}"
+                        </Link>
+                        <div className="text-xs text-muted-foreground">Last: {formatDateTime(row.lastSearchedAt)}</div>
+                      </TableCell>
+                      <TableCell className="text-right">{Math.round(row.bestSimilarity * 100)}%</TableCell>
+                      <TableCell className="text-right">{row.count}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+function formatPercentage(count: number, total: number) {
+  return total > 0 ? `${Math.round((count / total) * 100)}%` : "–";
+}
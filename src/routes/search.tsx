@@ -1,40 +1,85 @@
 import { createFileRoute, Link, redirect, useNavigate } from "@tanstack/react-router";
 import { createServerFn } from "@tanstack/react-start";
 import { zodValidator } from "@tanstack/zod-adapter";
-import { ArrowRight, ChevronDown, ChevronUp, Filter, Search } from "lucide-react";
-import { useEffect, useState } from "react";
+import { ArrowRight, Bookmark, ChevronDown, ChevronUp, Filter, Loader2, Search, Sparkles } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
 import { z } from "zod";
 import { MarkdownRenderer } from "~/components/MarkdownRenderer";
 import { Button } from "~/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
 import { Checkbox } from "~/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
 import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
 import { authMiddlewareEnsure } from "~/lib/auth-middleware";
 import { getUserDetails } from "~/lib/auth-server-user";
 import { Projects } from "~/lib/data/projects";
+import { SavedSearches } from "~/lib/data/savedSearches";
+import { toSearchFilters } from "~/lib/data/searchFilters";
+import { SearchQueries } from "~/lib/data/searchQueries";
+import { Tags } from "~/lib/data/tags";
+import { Users } from "~/lib/data/users";
+import { savedSearchSchema, searchFilterParamsSchema } from "~/lib/dataValidators";
 import { type SearchResult, SearchService } from "~/lib/services/search";
 
-const searchSchema = z.object({
+const searchSchema = searchFilterParamsSchema.extend({
   q: z.string().optional(),
   limit: z.number().optional().default(10),
-  projects: z.array(z.string()).optional(),
+  mode: z.enum(["search", "ask"]).optional(),
 });
 
+// Number of top results an answer in Ask mode is synthesized from
+const ASK_SOURCES = 5;
+
 const searchRecipes = createServerFn({ method: "GET" })
   .middleware([authMiddlewareEnsure])
-  .validator((data: unknown) => searchSchema.parse(data))
-  .handler(async ({ data }) => {
+  .validator((data: unknown) => searchSchema.extend({ track: z.boolean().optional() }).parse(data))
+  .handler(async (ctx) => {
+    const { data } = ctx;
     if (!data.q || data.q.trim() === "") {
-      return [];
+      return { searchId: null, results: [] };
+    }
+
+    const filters = toSearchFilters(data);
+
+    // Preloaded searches were not run by the user, so they are not recorded
+    if (!data.track) {
+      return { searchId: null, results: await SearchService.hybridSearch(data.q, data.limit, data.projects, filters) };
     }
+    return await SearchService.loggedSearch(data.q, data.limit, data.projects, filters, {
+      source: "web",
+      userId: ctx.context.user.id,
+    });
+  });
 
-    return await SearchService.hybridSearch(data.q, data.limit, data.projects);
+const recordSearchClick = createServerFn({ method: "POST" })
+  .middleware([authMiddlewareEnsure])
+  .validator((data: unknown) => z.object({ searchId: z.string(), shortId: z.string() }).parse(data))
+  .handler(async ({ data }) => {
+    await SearchQueries.logClick(data.searchId, data.shortId);
+  });
+
+const createSavedSearch = createServerFn({ method: "POST" })
+  .middleware([authMiddlewareEnsure])
+  .validator((data: unknown) => savedSearchSchema.parse(data))
+  .handler(async (ctx) => {
+    const savedSearch = await SavedSearches.create(ctx.data, ctx.context.user.id);
+    return { id: savedSearch.id };
   });
 
-const getProjects = createServerFn({ method: "GET" })
+const getFilterOptions = createServerFn({ method: "GET" })
   .middleware([authMiddlewareEnsure])
   .handler(async () => {
-    return await Projects.list();
+    const [projects, tags, users] = await Promise.all([Projects.list(), Tags.list(), Users.list()]);
+    return { projects, tags, authors: users.map((user) => ({ id: user.id, name: user.name })) };
   });
 
 export const Route = createFileRoute("/search")({
@@ -44,8 +89,18 @@ export const Route = createFileRoute("/search")({
   },
   component: SearchPage,
   validateSearch: zodValidator(searchSchema),
-  loaderDeps: ({ search: { q, limit, projects } }) => ({ q, limit, projects }),
-  loader: async ({ context, deps }) => {
+  loaderDeps: ({ search: { q, limit, projects, tags, tagMode, author, updatedAfter, updatedBefore, archived } }) => ({
+    q,
+    limit,
+    projects,
+    tags,
+    tagMode,
+    author,
+    updatedAfter,
+    updatedBefore,
+    archived,
+  }),
+  loader: async ({ context, deps, preload }) => {
     if (!context?.user?.id) {
       throw redirect({
         to: "/login",
@@ -53,32 +108,53 @@ export const Route = createFileRoute("/search")({
       });
     }
 
-    const projectsData = await getProjects();
+    const filterOptions = await getFilterOptions();
 
     if (deps.q) {
-      const searchResults = await searchRecipes({ data: deps });
-      return { results: searchResults, projects: projectsData };
+      const { searchId, results } = await searchRecipes({ data: { ...deps, track: !preload } });
+      return { searchId, results, ...filterOptions };
     }
 
-    return { results: [], projects: projectsData };
+    return { searchId: null, results: [], ...filterOptions };
   },
 });
 
 function SearchPage() {
   const navigate = useNavigate();
   const search = Route.useSearch();
-  const { results, projects } = Route.useLoaderData();
+  const { searchId, results, projects, tags, authors } = Route.useLoaderData();
   const [query, setQuery] = useState(search.q || "");
   const [selectedProjects, setSelectedProjects] = useState<string[]>(search.projects || []);
+  const [selectedTags, setSelectedTags] = useState<string[]>(search.tags || []);
+  const [tagMode, setTagMode] = useState<"any" | "all">(search.tagMode || "any");
+  const [author, setAuthor] = useState(search.author || "");
+  const [updatedAfter, setUpdatedAfter] = useState(search.updatedAfter || "");
+  const [updatedBefore, setUpdatedBefore] = useState(search.updatedBefore || "");
+  const [includeArchived, setIncludeArchived] = useState(search.archived || false);
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [isSearching, setIsSearching] = useState(false);
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [saveName, setSaveName] = useState("");
+  const [saveNotify, setSaveNotify] = useState(false);
+  const [saveThreshold, setSaveThreshold] = useState(50);
+  const [isSaving, setIsSaving] = useState(false);
+  const mode = search.mode ?? "search";
+  const askSources = useMemo(() => results.slice(0, ASK_SOURCES), [results]);
+
+  const activeFilterCount =
+    selectedProjects.length +
+    selectedTags.length +
+    (author ? 1 : 0) +
+    (updatedAfter ? 1 : 0) +
+    (updatedBefore ? 1 : 0) +
+    (includeArchived ? 1 : 0);
 
   // Show advanced filters if any filters are active
   useEffect(() => {
-    if (selectedProjects.length > 0) {
+    if (activeFilterCount > 0) {
       setShowAdvanced(true);
     }
-  }, [selectedProjects]);
+  }, [activeFilterCount]);
 
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -91,6 +167,13 @@ function SearchPage() {
         search: {
           q: query.trim(),
           projects: selectedProjects.length > 0 ? selectedProjects : undefined,
+          tags: selectedTags.length > 0 ? selectedTags : undefined,
+          tagMode: selectedTags.length > 1 && tagMode === "all" ? "all" : undefined,
+          author: author || undefined,
+          updatedAfter: updatedAfter || undefined,
+          updatedBefore: updatedBefore || undefined,
+          archived: includeArchived || undefined,
+          mode: search.mode,
         },
       });
     } finally {
@@ -106,13 +189,61 @@ function SearchPage() {
     setSelectedProjects(newSelectedProjects);
   };
 
+  const handleTagToggle = (tagId: string, checked: boolean) => {
+    setSelectedTags(checked ? [...selectedTags, tagId] : selectedTags.filter((id) => id !== tagId));
+  };
+
   const clearAllFilters = () => {
     setSelectedProjects([]);
+    setSelectedTags([]);
+    setTagMode("any");
+    setAuthor("");
+    setUpdatedAfter("");
+    setUpdatedBefore("");
+    setIncludeArchived(false);
     if (search.q) {
       navigate({
         to: "/search",
-        search: { q: search.q },
+        search: { q: search.q, mode: search.mode },
+      });
+    }
+  };
+
+  const handleSaveSearch = async () => {
+    if (!search.q) return;
+
+    setIsSaving(true);
+    try {
+      await createSavedSearch({
+        data: {
+          name: saveName,
+          query: search.q,
+          filters: {
+            projects: search.projects,
+            tags: search.tags,
+            tagMode: search.tagMode,
+            author: search.author,
+            updatedAfter: search.updatedAfter,
+            updatedBefore: search.updatedBefore,
+            archived: search.archived,
+          },
+          notify: saveNotify,
+          notifyThreshold: saveThreshold / 100,
+        },
       });
+      toast.success(`Saved search "${saveName}"`);
+      setShowSaveDialog(false);
+    } catch (error) {
+      console.error("Failed to save search:", error);
+      toast.error("Failed to save search");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const recordClick = (shortId: string) => {
+    if (searchId) {
+      recordSearchClick({ data: { searchId, shortId } }).catch(console.error);
     }
   };
 
@@ -128,11 +259,31 @@ function SearchPage() {
         {/* Search Bar */}
         <form onSubmit={handleSearch} className="space-y-4">
           <div className="flex gap-2">
+            <div className="flex">
+              <Button
+                type="button"
+                variant={mode === "search" ? "default" : "outline"}
+                onClick={() => navigate({ to: "/search", search: (prev) => ({ ...prev, mode: undefined }) })}>
+                <Search className="h-4 w-4" />
+                Search
+              </Button>
+              <Button
+                type="button"
+                variant={mode === "ask" ? "default" : "outline"}
+                onClick={() => navigate({ to: "/search", search: (prev) => ({ ...prev, mode: "ask" }) })}>
+                <Sparkles className="h-4 w-4" />
+                Ask
+              </Button>
+            </div>
             <div className="relative flex-1">
               <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
               <Input
                 type="text"
-                placeholder="Search for recipes, frameworks, concepts..."
+                placeholder={
+                  mode === "ask"
+                    ? "Ask a question, e.g. how do I add a database migration?"
+                    : "Search for recipes, frameworks, concepts..."
+                }
                 value={query}
                 onChange={(e) => setQuery(e.target.value)}
                 className="pl-9"
@@ -145,14 +296,14 @@ function SearchPage() {
               className="flex items-center gap-2">
               <Filter className="h-4 w-4" />
               Filters
-              {selectedProjects.length > 0 && (
+              {activeFilterCount > 0 && (
                 <span className="ml-1 px-1.5 py-0.5 text-xs bg-primary text-primary-foreground rounded-full">
-                  {selectedProjects.length}
+                  {activeFilterCount}
                 </span>
               )}
             </Button>
             <Button type="submit" disabled={isSearching || !query.trim()}>
-              {isSearching ? "Searching..." : "Search"}
+              {isSearching ? "Searching..." : mode === "ask" ? "Ask" : "Search"}
             </Button>
           </div>
 
@@ -162,7 +313,7 @@ function SearchPage() {
               <CardHeader>
                 <div className="flex items-center justify-between">
                   <CardTitle className="text-base">Search Filters</CardTitle>
-                  {selectedProjects.length > 0 && (
+                  {activeFilterCount > 0 && (
                     <Button variant="ghost" size="sm" onClick={clearAllFilters}>
                       Clear All
                     </Button>
@@ -192,6 +343,100 @@ function SearchPage() {
                     </div>
                   </div>
                 )}
+
+                {/* Tag Filters */}
+                {tags.length > 0 && (
+                  <div>
+                    <div className="flex items-center justify-between mb-3">
+                      <h4 className="text-sm font-medium">Tags</h4>
+                      <div className="flex items-center gap-1">
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant={tagMode === "any" ? "default" : "outline"}
+                          onClick={() => setTagMode("any")}>
+                          Any tag
+                        </Button>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant={tagMode === "all" ? "default" : "outline"}
+                          onClick={() => setTagMode("all")}>
+                          All tags
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                      {tags.map((tag) => (
+                        <div key={tag.id} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`tag-${tag.id}`}
+                            checked={selectedTags.includes(tag.id)}
+                            onCheckedChange={(checked) => handleTagToggle(tag.id, !!checked)}
+                          />
+                          <label htmlFor={`tag-${tag.id}`} className="text-sm font-medium leading-none cursor-pointer">
+                            {tag.name}
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Author and Date Filters */}
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <div className="space-y-2">
+                    <label htmlFor="filter-author" className="text-sm font-medium">
+                      Author
+                    </label>
+                    <select
+                      id="filter-author"
+                      value={author}
+                      onChange={(e) => setAuthor(e.target.value)}
+                      className="flex h-9 w-full border border-input bg-white/40 px-3 py-1 text-base shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] md:text-sm">
+                      <option value="">Anyone</option>
+                      {authors.map((user) => (
+                        <option key={user.id} value={user.id}>
+                          {user.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <label htmlFor="filter-updated-after" className="text-sm font-medium">
+                      Updated after
+                    </label>
+                    <Input
+                      id="filter-updated-after"
+                      type="date"
+                      value={updatedAfter}
+                      onChange={(e) => setUpdatedAfter(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label htmlFor="filter-updated-before" className="text-sm font-medium">
+                      Updated before
+                    </label>
+                    <Input
+                      id="filter-updated-before"
+                      type="date"
+                      value={updatedBefore}
+                      onChange={(e) => setUpdatedBefore(e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                {/* Archived Versions */}
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="filter-archived"
+                    checked={includeArchived}
+                    onCheckedChange={(checked) => setIncludeArchived(!!checked)}
+                  />
+                  <label htmlFor="filter-archived" className="text-sm font-medium leading-none cursor-pointer">
+                    Include archived versions
+                  </label>
+                </div>
               </CardContent>
             </Card>
           )}
@@ -202,10 +447,22 @@ function SearchPage() {
       <div className="space-y-4">
         {search.q && (
           <div className="text-sm text-muted-foreground space-y-1">
-            <div>
-              {results.length > 0
-                ? `Found ${results.length} result${results.length === 1 ? "" : "s"} for "${search.q}"`
-                : `No results found for "${search.q}"`}
+            <div className="flex items-center justify-between">
+              <span>
+                {results.length > 0
+                  ? `Found ${results.length} result${results.length === 1 ? "" : "s"} for "${search.q}"`
+                  : `No results found for "${search.q}"`}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setSaveName(search.q ?? "");
+                  setShowSaveDialog(true);
+                }}>
+                <Bookmark className="h-4 w-4 mr-1" />
+                Save Search
+              </Button>
             </div>
             {selectedProjects.length > 0 && (
               <div className="flex items-center gap-2">
@@ -222,13 +479,32 @@ function SearchPage() {
                 </div>
               </div>
             )}
+            {selectedTags.length > 0 && (
+              <div className="flex items-center gap-2">
+                <span>Tagged with {selectedTags.length > 1 && tagMode === "all" ? "all of" : "any of"}:</span>
+                <div className="flex gap-1">
+                  {selectedTags.map((tagId) => {
+                    const tag = tags.find((t) => t.id === tagId);
+                    return tag ? (
+                      <span key={tagId} className="px-2 py-1 text-xs bg-muted rounded-md">
+                        {tag.name}
+                      </span>
+                    ) : null;
+                  })}
+                </div>
+              </div>
+            )}
           </div>
         )}
 
+        {mode === "ask" && search.q && askSources.length > 0 && (
+          <AskAnswer question={search.q} sources={askSources} onOpen={recordClick} />
+        )}
+
         {results.length > 0 && (
           <div className="space-y-4">
             {results.map((result) => (
-              <SearchResultCard key={result.versionId} result={result} />
+              <SearchResultCard key={result.versionId} result={result} onOpen={() => recordClick(result.shortid)} />
             ))}
           </div>
         )}
@@ -290,11 +566,155 @@ function SearchPage() {
           </Card>
         )}
       </div>
+
+      {/* Save Search Dialog */}
+      <Dialog open={showSaveDialog} onOpenChange={setShowSaveDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save Search</DialogTitle>
+            <DialogDescription>
+              Save "{search.q}" with the current filters to run it again from the home page.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-search-name">Name</Label>
+              <Input id="saved-search-name" value={saveName} onChange={(e) => setSaveName(e.target.value)} />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="saved-search-notify"
+                checked={saveNotify}
+                onCheckedChange={(checked) => setSaveNotify(!!checked)}
+              />
+              <label htmlFor="saved-search-notify" className="text-sm font-medium leading-none cursor-pointer">
+                Notify me when a new recipe version matches
+              </label>
+            </div>
+            {saveNotify && (
+              <div className="space-y-2">
+                <Label htmlFor="saved-search-threshold">Minimum similarity (%)</Label>
+                <Input
+                  id="saved-search-threshold"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={saveThreshold}
+                  onChange={(e) => setSaveThreshold(Number(e.target.value))}
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowSaveDialog(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveSearch} disabled={isSaving || !saveName.trim()}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
 
-function SearchResultCard({ result }: { result: SearchResult }) {
+function AskAnswer({
+  question,
+  sources,
+  onOpen,
+}: {
+  question: string;
+  sources: SearchResult[];
+  onOpen: (shortId: string) => void;
+}) {
+  const [answer, setAnswer] = useState("");
+  const [status, setStatus] = useState<"streaming" | "done" | "error">("streaming");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setAnswer("");
+    setError(null);
+    setStatus("streaming");
+
+    const streamAnswer = async () => {
+      try {
+        const response = await fetch("/api/ask", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ question, versionIds: sources.map((source) => source.versionId) }),
+          signal: controller.signal,
+        });
+        if (!response.ok || !response.body) {
+          throw new Error((await response.text()) || "Failed to generate an answer");
+        }
+
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          setAnswer((previous) => previous + value);
+        }
+        setStatus("done");
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : "Failed to generate an answer");
+        setStatus("error");
+      }
+    };
+
+    streamAnswer();
+    return () => controller.abort();
+  }, [question, sources]);
+
+  // Turn citations like [2] into links to the cited recipe
+  const answerWithLinks = answer.replace(/\[(\d+)\]/g, (citation, number: string) => {
+    const source = sources[parseInt(number) - 1];
+    return source ? `[[${number}]](/recipes/${source.recipeId})` : citation;
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Sparkles className="h-5 w-5" />
+          Answer
+          {status === "streaming" && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : answer ? (
+          <MarkdownRenderer content={answerWithLinks} variant="search" />
+        ) : (
+          <p className="text-sm text-muted-foreground">Reading the top {sources.length} recipes...</p>
+        )}
+
+        <div className="border-t pt-3">
+          <div className="text-xs font-medium text-muted-foreground mb-2">Sources</div>
+          <ol className="space-y-1 text-sm">
+            {sources.map((source, index) => (
+              <li key={source.versionId} className="flex gap-2">
+                <span className="text-muted-foreground">[{index + 1}]</span>
+                <Link
+                  to="/recipes/$recipeId"
+                  params={{ recipeId: source.recipeId }}
+                  onClick={() => onOpen(source.shortid)}
+                  className="text-primary hover:underline">
+                  {source.title}
+                </Link>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function SearchResultCard({ result, onOpen }: { result: SearchResult; onOpen: () => void }) {
   const [isExpanded, setIsExpanded] = useState(false);
 
   // Count lines in the summary to determine if we need show more/less
@@ -310,12 +730,19 @@ function SearchResultCard({ result }: { result: SearchResult }) {
               <Link
                 to="/recipes/$recipeId"
                 params={{ recipeId: result.recipeId }}
+                onClick={onOpen}
                 className="text-primary hover:underline">
                 {result.title}
               </Link>
             </CardTitle>
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
               <span className="font-mono">{result.shortid}</span>
+              {!result.isCurrent && (
+                <>
+                  <span>•</span>
+                  <span className="px-2 py-0.5 text-xs bg-muted rounded-md">Archived version</span>
+                </>
+              )}
               {result.similarity < 1 && (
                 <>
                   <span>•</span>
@@ -359,11 +786,18 @@ function SearchResultCard({ result }: { result: SearchResult }) {
             )}
           </div>
         )}
+        {result.snippet && (
+          <div className="mt-3 border-l-2 pl-3 text-sm text-muted-foreground">
+            {result.section && <div className="text-xs font-medium text-foreground mb-1">{result.section}</div>}
+            <MarkdownRenderer content={result.snippet} variant="search" />
+          </div>
+        )}
       </CardHeader>
       <CardContent className="pt-0">
         <Link
           to="/recipes/$recipeId"
           params={{ recipeId: result.recipeId }}
+          onClick={onOpen}
           className="inline-flex items-center text-sm text-primary hover:underline">
           View Recipe
           <ArrowRight className="h-3 w-3 ml-1" />
@@ -0,0 +1,384 @@
+import { useForm } from "@tanstack/react-form";
+import { createFileRoute, redirect, useNavigate, useRouter } from "@tanstack/react-router";
+import { createServerFn } from "@tanstack/react-start";
+import { ArrowLeft, Edit, MessageSquare, Plus, Save, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { z } from "zod";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "~/components/ui/alert-dialog";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Textarea } from "~/components/ui/textarea";
+import { authMiddlewareEnsure } from "~/lib/auth-middleware";
+import { getUserDetails } from "~/lib/auth-server-user";
+import { Prompts } from "~/lib/data/prompts";
+import { agentPromptSchema } from "~/lib/dataValidators";
+import { extractPromptArguments } from "~/lib/prompts";
+
+const getAgentPrompts = createServerFn({ method: "GET" })
+  .middleware([authMiddlewareEnsure])
+  .handler(async () => {
+    return Prompts.listAgentPrompts();
+  });
+
+const createAgentPrompt = createServerFn({ method: "POST" })
+  .middleware([authMiddlewareEnsure])
+  .validator((data: unknown) => agentPromptSchema.parse(data))
+  .handler(async (ctx) => {
+    return Prompts.create({ ...ctx.data, description: ctx.data.description.trim() || undefined }, ctx.context.user.id);
+  });
+
+const updateAgentPrompt = createServerFn({ method: "POST" })
+  .middleware([authMiddlewareEnsure])
+  .validator((data: unknown) => {
+    const parsed = data as { id: string; promptData: unknown };
+    return {
+      id: z.string().min(1).parse(parsed.id),
+      promptData: agentPromptSchema.parse(parsed.promptData),
+    };
+  })
+  .handler(async (ctx) => {
+    const { promptData } = ctx.data;
+    return Prompts.update(
+      ctx.data.id,
+      { ...promptData, description: promptData.description.trim() || undefined },
+      ctx.context.user.id,
+    );
+  });
+
+const deleteAgentPrompt = createServerFn({ method: "POST" })
+  .middleware([authMiddlewareEnsure])
+  .validator((data: unknown) => z.object({ id: z.string().min(1) }).parse(data))
+  .handler(async (ctx) => {
+    return Prompts.deletePrompt(ctx.data.id, ctx.context.user.id);
+  });
+
+export const Route = createFileRoute("/settings/agent-prompts")({
+  beforeLoad: async () => {
+    const user = await getUserDetails();
+    return { user };
+  },
+  component: AgentPromptsPage,
+  loader: async ({ context }) => {
+    if (!context?.user?.id) {
+      throw redirect({
+        to: "/login",
+        search: { redirect: "/settings/agent-prompts" },
+      });
+    }
+
+    return getAgentPrompts();
+  },
+});
+
+type AgentPrompt = Awaited<ReturnType<typeof getAgentPrompts>>[number];
+
+function AgentPromptsPage() {
+  const router = useRouter();
+  const navigate = useNavigate();
+  const prompts = Route.useLoaderData();
+  const [editingPrompt, setEditingPrompt] = useState<AgentPrompt | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [deleteDialog, setDeleteDialog] = useState<AgentPrompt | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const form = useForm({
+    defaultValues: {
+      key: "",
+      name: "",
+      description: "",
+      content: "",
+    },
+    validators: {
+      onChange: agentPromptSchema,
+    },
+    onSubmit: async ({ value }) => {
+      try {
+        if (editingPrompt) {
+          await updateAgentPrompt({ data: { id: editingPrompt.id, promptData: value } });
+          toast.success("Prompt updated successfully!");
+        } else {
+          await createAgentPrompt({ data: value });
+          toast.success("Prompt created successfully!");
+        }
+        closeForm();
+        router.invalidate();
+      } catch (error) {
+        console.error("Failed to save prompt:", error);
+        toast.error(`Failed to save prompt: ${error instanceof Error ? error.message : "Unknown error"}`);
+      }
+    },
+  });
+
+  const openForm = (prompt: AgentPrompt | null) => {
+    setEditingPrompt(prompt);
+    form.reset({
+      key: prompt?.key ?? "",
+      name: prompt?.name ?? "",
+      description: prompt?.description ?? "",
+      content: prompt?.content ?? "",
+    });
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setEditingPrompt(null);
+    setShowForm(false);
+    form.reset();
+  };
+
+  const handleDelete = async (prompt: AgentPrompt) => {
+    setIsDeleting(true);
+    try {
+      await deleteAgentPrompt({ data: { id: prompt.id } });
+      toast.success("Prompt deleted");
+      router.invalidate();
+    } catch (error) {
+      console.error("Failed to delete prompt:", error);
+      toast.error("Failed to delete prompt");
+    } finally {
+      setIsDeleting(false);
+      setDeleteDialog(null);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex items-center space-x-4">
+        <Button variant="ghost" size="sm" onClick={() => navigate({ to: "/settings" })}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Settings
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Agent Prompts</h1>
+          <p className="text-muted-foreground">Reusable prompt templates published to AI agents through MCP</p>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto space-y-6">
+        {!showForm && (
+          <div className="flex justify-center">
+            <Button onClick={() => openForm(null)} className="min-w-[160px]">
+              <Plus className="h-4 w-4 mr-2" />
+              Create Prompt
+            </Button>
+          </div>
+        )}
+
+        {/* Create / Edit Form */}
+        {showForm && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{editingPrompt ? "Edit Prompt" : "Create Prompt"}</CardTitle>
+              <CardDescription>
+                Use {"{placeholders}"} in the content; each one becomes an argument the agent fills in.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  form.handleSubmit();
+                }}
+                className="space-y-6">
+                <form.Field name="key">
+                  {(field) => (
+                    <div className="space-y-2">
+                      <Label htmlFor={field.name}>Key *</Label>
+                      <Input
+                        id={field.name}
+                        placeholder="e.g. review-pull-request"
+                        value={field.state.value}
+                        onBlur={field.handleBlur}
+                        onChange={(e) => field.handleChange(e.target.value)}
+                        className={`font-mono ${field.state.meta.errors?.length ? "border-destructive" : ""}`}
+                      />
+                      {field.state.meta.errors.length > 0 ? (
+                        <p className="text-sm text-destructive">
+                          {field.state.meta.errors.map((error) => error?.message).join(", ")}
+                        </p>
+                      ) : (
+                        <p className="text-xs text-muted-foreground">The prompt name agents use to request it</p>
+                      )}
+                    </div>
+                  )}
+                </form.Field>
+
+                <form.Field name="name">
+                  {(field) => (
+                    <div className="space-y-2">
+                      <Label htmlFor={field.name}>Display Name *</Label>
+                      <Input
+                        id={field.name}
+                        placeholder="e.g. Review a pull request"
+                        value={field.state.value}
+                        onBlur={field.handleBlur}
+                        onChange={(e) => field.handleChange(e.target.value)}
+                        className={field.state.meta.errors?.length ? "border-destructive" : ""}
+                      />
+                      {field.state.meta.errors.length > 0 && (
+                        <p className="text-sm text-destructive">
+                          {field.state.meta.errors.map((error) => error?.message).join(", ")}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </form.Field>
+
+                <form.Field name="description">
+                  {(field) => (
+                    <div className="space-y-2">
+                      <Label htmlFor={field.name}>Description</Label>
+                      <Input
+                        id={field.name}
+                        placeholder="What the prompt is for (optional)"
+                        value={field.state.value}
+                        onBlur={field.handleBlur}
+                        onChange={(e) => field.handleChange(e.target.value)}
+                        className={field.state.meta.errors?.length ? "border-destructive" : ""}
+                      />
+                      {field.state.meta.errors.length > 0 && (
+                        <p className="text-sm text-destructive">
+                          {field.state.meta.errors.map((error) => error?.message).join(", ")}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </form.Field>
+
+                <form.Field name="content">
+                  {(field) => {
+                    const promptArguments = extractPromptArguments(field.state.value);
+
+                    return (
+                      <div className="space-y-2">
+                        <Label htmlFor={field.name}>Prompt Content *</Label>
+                        <Textarea
+                          id={field.name}
+                          value={field.state.value}
+                          onBlur={field.handleBlur}
+                          onChange={(e) => field.handleChange(e.target.value)}
+                          placeholder="Enter prompt content"
+                          className="min-h-[240px] font-mono text-sm"
+                        />
+                        {field.state.meta.errors.length > 0 && (
+                          <p className="text-sm text-destructive">
+                            {field.state.meta.errors.map((error) => error?.message).join(", ")}
+                          </p>
+                        )}
+                        {promptArguments.length > 0 && (
+                          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                            <span>Arguments:</span>
+                            {promptArguments.map((name) => (
+                              <Badge key={name} variant="secondary" className="font-mono">
+                                {name}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  }}
+                </form.Field>
+
+                <div className="flex justify-end space-x-2 pt-4">
+                  <Button type="button" variant="outline" onClick={closeForm}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={form.state.isSubmitting}>
+                    <Save className="h-4 w-4 mr-2" />
+                    {form.state.isSubmitting ? "Saving..." : "Save Prompt"}
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Prompt List */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <MessageSquare className="h-5 w-5" />
+              <span>All Agent Prompts ({prompts.length})</span>
+            </CardTitle>
+            <CardDescription>Available to MCP clients through prompts/list and prompts/get</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {prompts.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-center">
+                <div className="rounded-full bg-muted p-3 mb-4">
+                  <MessageSquare className="h-6 w-6 text-muted-foreground" />
+                </div>
+                <h3 className="text-lg font-medium">No agent prompts yet</h3>
+                <p className="text-muted-foreground">Create a prompt to share it with your team's AI agents.</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {prompts.map((prompt) => (
+                  <div key={prompt.id} className="flex items-start justify-between p-4 border rounded-lg">
+                    <div className="flex-1">
+                      <h3 className="font-medium">{prompt.name}</h3>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Key: <code className="bg-muted px-1 py-0.5 rounded">{prompt.key}</code>
+                      </p>
+                      {prompt.description && <p className="text-sm text-muted-foreground mt-1">{prompt.description}</p>}
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {extractPromptArguments(prompt.content).map((name) => (
+                          <Badge key={name} variant="outline" className="font-mono text-xs">
+                            {name}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex space-x-2 ml-4">
+                      <Button size="sm" variant="outline" onClick={() => openForm(prompt)}>
+                        <Edit className="h-4 w-4 mr-2" />
+                        Edit
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setDeleteDialog(prompt)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={!!deleteDialog} onOpenChange={() => setDeleteDialog(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Prompt</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{deleteDialog?.name}"? Agents will no longer be able to use it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleteDialog && handleDelete(deleteDialog)} disabled={isDeleting}>
+              {isDeleting ? "Deleting..." : "Delete Prompt"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
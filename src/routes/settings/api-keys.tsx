@@ -0,0 +1,360 @@
+import { useForm } from "@tanstack/react-form";
+import { createFileRoute, redirect, useNavigate, useRouter } from "@tanstack/react-router";
+import { createServerFn } from "@tanstack/react-start";
+import { ArrowLeft, Copy, KeyRound, Plus, Save } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "~/components/ui/alert-dialog";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Checkbox } from "~/components/ui/checkbox";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { authMiddlewareEnsure } from "~/lib/auth-middleware";
+import { getUserDetails } from "~/lib/auth-server-user";
+import { ApiKeys } from "~/lib/data/apiKeys";
+import { Projects } from "~/lib/data/projects";
+import { apiKeyIdSchema, apiKeySchema } from "~/lib/dataValidators";
+import { formatDateTime } from "~/lib/dateUtils";
+
+const getApiKeys = createServerFn({ method: "GET" })
+  .middleware([authMiddlewareEnsure])
+  .handler(async () => {
+    const [apiKeys, projects] = await Promise.all([ApiKeys.list(), Projects.list()]);
+    return { apiKeys, projects };
+  });
+
+const createApiKey = createServerFn({ method: "POST" })
+  .middleware([authMiddlewareEnsure])
+  .validator((data: unknown) => apiKeySchema.parse(data))
+  .handler(async (ctx) => {
+    if (ctx.context.user.role !== "admin") {
+      throw new Error("Only admins can manage API keys");
+    }
+    return ApiKeys.create(ctx.data, ctx.context.user.id);
+  });
+
+const revokeApiKey = createServerFn({ method: "POST" })
+  .middleware([authMiddlewareEnsure])
+  .validator((data: unknown) => apiKeyIdSchema.parse(data))
+  .handler(async (ctx) => {
+    if (ctx.context.user.role !== "admin") {
+      throw new Error("Only admins can manage API keys");
+    }
+    return ApiKeys.revoke(ctx.data.apiKeyId, ctx.context.user.id);
+  });
+
+export const Route = createFileRoute("/settings/api-keys")({
+  beforeLoad: async () => {
+    const user = await getUserDetails();
+    return { user };
+  },
+  component: ApiKeysPage,
+  loader: async ({ context }) => {
+    if (!context?.user?.id) {
+      throw redirect({
+        to: "/login",
+        search: { redirect: "/settings/api-keys" },
+      });
+    }
+
+    return { ...(await getApiKeys()), currentUserRole: context?.user?.role };
+  },
+});
+
+type ApiKey = Awaited<ReturnType<typeof getApiKeys>>["apiKeys"][number];
+
+function ApiKeysPage() {
+  const router = useRouter();
+  const navigate = useNavigate();
+  const { apiKeys, projects, currentUserRole } = Route.useLoaderData();
+  const [showForm, setShowForm] = useState(false);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [revokeDialog, setRevokeDialog] = useState<ApiKey | null>(null);
+  const [isRevoking, setIsRevoking] = useState(false);
+  const isAdmin = currentUserRole === "admin";
+
+  const form = useForm({
+    defaultValues: {
+      name: "",
+      projectIds: [] as string[],
+    },
+    validators: {
+      onChange: apiKeySchema,
+    },
+    onSubmit: async ({ value }) => {
+      try {
+        const { key } = await createApiKey({ data: value });
+        // The plain key is only available now, so keep it on screen until dismissed
+        setNewKey(key);
+        setShowForm(false);
+        form.reset();
+        router.invalidate();
+        toast.success("API key created successfully!");
+      } catch (error) {
+        console.error("Failed to create API key:", error);
+        toast.error(`Failed to create API key: ${error instanceof Error ? error.message : "Unknown error"}`);
+      }
+    },
+  });
+
+  const handleCopy = async (key: string) => {
+    try {
+      await navigator.clipboard.writeText(key);
+      toast.success("API key copied to clipboard");
+    } catch (error) {
+      console.error("Failed to copy API key:", error);
+      toast.error("Failed to copy API key");
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    setIsRevoking(true);
+    try {
+      await revokeApiKey({ data: { apiKeyId: apiKey.id } });
+      toast.success("API key revoked");
+      router.invalidate();
+    } catch (error) {
+      console.error("Failed to revoke API key:", error);
+      toast.error("Failed to revoke API key");
+    } finally {
+      setIsRevoking(false);
+      setRevokeDialog(null);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex items-center space-x-4">
+        <Button variant="ghost" size="sm" onClick={() => navigate({ to: "/settings" })}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Settings
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">API Keys</h1>
+          <p className="text-muted-foreground">Keys that MCP clients use to connect to the MCP server</p>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto space-y-6">
+        {isAdmin && !showForm && (
+          <div className="flex justify-center">
+            <Button onClick={() => setShowForm(true)} className="min-w-[160px]">
+              <Plus className="h-4 w-4 mr-2" />
+              Create API Key
+            </Button>
+          </div>
+        )}
+
+        {/* Newly created key */}
+        {newKey && (
+          <Card className="border-green-500/50">
+            <CardHeader>
+              <CardTitle>API Key Created</CardTitle>
+              <CardDescription>Copy this key now. It is not stored and cannot be shown again.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center space-x-2">
+                <code className="flex-1 bg-muted rounded p-3 text-sm break-all">{newKey}</code>
+                <Button variant="outline" size="sm" onClick={() => handleCopy(newKey)}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Send it with every MCP request as <code>Authorization: Bearer {"<key>"}</code>.
+              </p>
+              <div className="flex justify-end">
+                <Button variant="outline" onClick={() => setNewKey(null)}>
+                  Done
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Create Form */}
+        {isAdmin && showForm && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Create API Key</CardTitle>
+              <CardDescription>
+                Restrict the key to projects to limit which recipes it can read. Without projects it can read all
+                recipes.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  form.handleSubmit();
+                }}
+                className="space-y-6">
+                <form.Field name="name">
+                  {(field) => (
+                    <div className="space-y-2">
+                      <Label htmlFor={field.name}>Name *</Label>
+                      <Input
+                        id={field.name}
+                        placeholder="e.g. Cursor on build server"
+                        value={field.state.value}
+                        onBlur={field.handleBlur}
+                        onChange={(e) => field.handleChange(e.target.value)}
+                        className={field.state.meta.errors?.length ? "border-destructive" : ""}
+                      />
+                      {field.state.meta.errors.length > 0 && (
+                        <p className="text-sm text-destructive">
+                          {field.state.meta.errors.map((error) => error?.message).join(", ")}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </form.Field>
+
+                <form.Field name="projectIds">
+                  {(field) => (
+                    <div className="space-y-2">
+                      <Label>Projects</Label>
+                      {projects.length > 0 ? (
+                        <div className="space-y-3">
+                          {projects.map((project) => (
+                            <div key={project.id} className="flex items-start space-x-3">
+                              <Checkbox
+                                id={`project-${project.id}`}
+                                checked={field.state.value.includes(project.id)}
+                                onCheckedChange={() =>
+                                  field.handleChange(
+                                    field.state.value.includes(project.id)
+                                      ? field.state.value.filter((id) => id !== project.id)
+                                      : [...field.state.value, project.id],
+                                  )
+                                }
+                              />
+                              <Label htmlFor={`project-${project.id}`} className="font-medium cursor-pointer">
+                                {project.title}
+                              </Label>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-muted-foreground text-sm">No projects available</p>
+                      )}
+                    </div>
+                  )}
+                </form.Field>
+
+                <div className="flex justify-end space-x-2 pt-4">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => {
+                      setShowForm(false);
+                      form.reset();
+                    }}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={form.state.isSubmitting}>
+                    <Save className="h-4 w-4 mr-2" />
+                    {form.state.isSubmitting ? "Creating..." : "Create Key"}
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* API Key List */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <KeyRound className="h-5 w-5" />
+              <span>All API Keys ({apiKeys.length})</span>
+            </CardTitle>
+            <CardDescription>
+              {isAdmin ? "Revoked keys can no longer be used" : "Only admins can create and revoke API keys"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {apiKeys.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-center">
+                <div className="rounded-full bg-muted p-3 mb-4">
+                  <KeyRound className="h-6 w-6 text-muted-foreground" />
+                </div>
+                <h3 className="text-lg font-medium">No API keys yet</h3>
+                <p className="text-muted-foreground">MCP clients need an API key to connect.</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {apiKeys.map((apiKey) => (
+                  <div key={apiKey.id} className="flex items-start justify-between p-4 border rounded-lg">
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-2">
+                        <h3 className="font-medium">{apiKey.name}</h3>
+                        {apiKey.revokedAt && <Badge variant="destructive">Revoked</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Key: <code className="bg-muted px-1 py-0.5 rounded">{apiKey.keyPrefix}…</code> • Created{" "}
+                        {formatDateTime(apiKey.createdAt)} • Last used{" "}
+                        {apiKey.lastUsedAt ? formatDateTime(apiKey.lastUsedAt) : "never"}
+                      </p>
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {apiKey.projects.length > 0 ? (
+                          apiKey.projects.map((project) => (
+                            <Badge key={project.id} variant="outline" className="text-xs">
+                              {project.title}
+                            </Badge>
+                          ))
+                        ) : (
+                          <Badge variant="secondary" className="text-xs">
+                            All projects
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                    {isAdmin && !apiKey.revokedAt && (
+                      <div className="flex space-x-2 ml-4">
+                        <Button size="sm" variant="outline" onClick={() => setRevokeDialog(apiKey)}>
+                          Revoke
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Revoke Confirmation Dialog */}
+      <AlertDialog open={!!revokeDialog} onOpenChange={() => setRevokeDialog(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke API Key</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to revoke "{revokeDialog?.name}"? Clients using it will immediately lose access.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRevoking}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => revokeDialog && handleRevoke(revokeDialog)} disabled={isRevoking}>
+              {isRevoking ? "Revoking..." : "Revoke Key"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,6 +1,18 @@
 import { createFileRoute, Link, redirect } from "@tanstack/react-router";
 import { createServerFn } from "@tanstack/react-start";
-import { AlertTriangle, CheckCircle, Edit, MessageSquare, Settings } from "lucide-react";
+import {
+  AlertTriangle,
+  Bot,
+  CheckCircle,
+  Database,
+  Edit,
+  KeyRound,
+  MessageSquare,
+  Settings,
+  Trash2,
+} from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
 import { type AppSettingInfo, SettingEditor } from "~/components/SettingEditor";
 import { Alert, AlertDescription, AlertTitle } from "~/components/ui/alert";
 import { Button } from "~/components/ui/button";
@@ -8,11 +20,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/com
 import { authMiddlewareEnsure } from "~/lib/auth-middleware";
 import { getUserDetails } from "~/lib/auth-server-user";
 import { Prompts } from "~/lib/data/prompts";
+import { QueryEmbeddings } from "~/lib/data/queryEmbeddings";
 import { Settings as AppSettings, type SettingsConfig, settingsConfigSchema } from "~/lib/data/settings";
 import { DEFAULT_PROMPTS, PROMPT_METADATA, type PromptKey } from "~/lib/prompts";
+import { AIProviders } from "~/lib/services/aiProviders";
 
 interface SettingsValidation {
-  openaiApiKey: boolean;
+  summaryProvider: string;
+  summaryConfigured: boolean;
+  embeddingProvider: string;
+  embeddingConfigured: boolean;
 }
 
 interface PromptStatus {
@@ -27,7 +44,10 @@ const getSettingsValidation = createServerFn({ method: "GET" })
   .middleware([authMiddlewareEnsure])
   .handler(async (): Promise<SettingsValidation> => {
     return {
-      openaiApiKey: !!AppSettings.get("OPENAI_API_KEY"),
+      summaryProvider: AppSettings.get("SUMMARY_PROVIDER"),
+      summaryConfigured: AIProviders.isSummaryConfigured(),
+      embeddingProvider: AppSettings.get("EMBEDDING_PROVIDER"),
+      embeddingConfigured: AIProviders.isEmbeddingConfigured(),
     };
   });
 
@@ -53,6 +73,24 @@ const getPromptStatuses = createServerFn({ method: "GET" })
     return statuses;
   });
 
+const getQueryEmbeddingCacheStats = createServerFn({ method: "GET" })
+  .middleware([authMiddlewareEnsure])
+  .handler(async () => {
+    return {
+      ...(await QueryEmbeddings.getStats()),
+      ttlHours: AppSettings.get("QUERY_EMBEDDING_CACHE_TTL_HOURS"),
+    };
+  });
+
+const clearQueryEmbeddingCache = createServerFn({ method: "POST" })
+  .middleware([authMiddlewareEnsure])
+  .handler(async (ctx) => {
+    if (ctx.context.user.role !== "admin") {
+      throw new Error("Only admins can clear the query embedding cache");
+    }
+    return QueryEmbeddings.clear();
+  });
+
 const getAppSettings = createServerFn({ method: "GET" })
   .middleware([authMiddlewareEnsure])
   .handler(async (): Promise<AppSettingInfo[]> => {
@@ -90,17 +128,34 @@ export const Route = createFileRoute("/settings/")({
       });
     }
 
-    const [validation, promptStatuses, appSettings] = await Promise.all([
+    const [validation, promptStatuses, appSettings, cacheStats] = await Promise.all([
       getSettingsValidation(),
       getPromptStatuses(),
       getAppSettings(),
+      getQueryEmbeddingCacheStats(),
     ]);
-    return { validation, promptStatuses, appSettings };
+    return { validation, promptStatuses, appSettings, cacheStats, currentUserRole: context?.user?.role };
   },
 });
 
 function SettingsPage() {
-  const { validation, promptStatuses, appSettings } = Route.useLoaderData();
+  const { validation, promptStatuses, appSettings, cacheStats, currentUserRole } = Route.useLoaderData();
+  const [isClearingCache, setIsClearingCache] = useState(false);
+
+  const handleClearCache = async () => {
+    setIsClearingCache(true);
+    try {
+      const result = await clearQueryEmbeddingCache();
+      toast.success(`Removed ${result.count} cached query embeddings`);
+      // Refresh the page data
+      window.location.reload();
+    } catch (error) {
+      console.error("Failed to clear the query embedding cache:", error);
+      toast.error("Failed to clear the query embedding cache");
+    } finally {
+      setIsClearingCache(false);
+    }
+  };
 
   return (
     <div className="space-y-8">
@@ -122,23 +177,33 @@ function SettingsPage() {
             <CardDescription>Check your environment configuration for AI features</CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            {!validation.openaiApiKey && (
+            {!validation.summaryConfigured && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Summary Provider Not Configured</AlertTitle>
+                <AlertDescription>
+                  The "{validation.summaryProvider}" provider set in SUMMARY_PROVIDER is unknown or missing its API
+                  settings. AI-generated recipe summaries are disabled and queued recipes will not be processed.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {!validation.embeddingConfigured && (
               <Alert variant="destructive">
                 <AlertTriangle className="h-4 w-4" />
-                <AlertTitle>OpenAI API Key Missing</AlertTitle>
+                <AlertTitle>Embedding Provider Not Configured</AlertTitle>
                 <AlertDescription>
-                  The OPENAI_API_KEY setting is not configured. This will disable:
+                  The "{validation.embeddingProvider}" provider set in EMBEDDING_PROVIDER is unknown, does not support
+                  embeddings or is missing its API settings. This will disable:
                   <ul className="list-disc list-inside mt-2 space-y-1">
-                    <li>AI-generated recipe summaries</li>
                     <li>Vector embeddings for semantic search</li>
                     <li>Enhanced search functionality</li>
                   </ul>
-                  Please configure the OPENAI_API_KEY setting to enable these features.
                 </AlertDescription>
               </Alert>
             )}
 
-            {validation.openaiApiKey && (
+            {validation.summaryConfigured && validation.embeddingConfigured && (
               <Alert>
                 <CheckCircle className="h-4 w-4" />
                 <AlertTitle>Environment Configuration Valid</AlertTitle>
@@ -150,6 +215,63 @@ function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Query Embedding Cache */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Database className="h-5 w-5" />
+              <span>Query Embedding Cache</span>
+            </CardTitle>
+            <CardDescription>
+              {cacheStats.ttlHours > 0
+                ? `Embeddings of search queries are reused for ${cacheStats.ttlHours} hours (QUERY_EMBEDDING_CACHE_TTL_HOURS)`
+                : "The cache is disabled, set QUERY_EMBEDDING_CACHE_TTL_HOURS to enable it"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-4 gap-4 text-center">
+              <div>
+                <div className="text-2xl font-bold">{cacheStats.queries}</div>
+                <div className="text-xs text-muted-foreground">Cached queries</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{cacheStats.hits}</div>
+                <div className="text-xs text-muted-foreground">Hits</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{cacheStats.misses}</div>
+                <div className="text-xs text-muted-foreground">Misses</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">
+                  {cacheStats.hitRate === null ? "–" : `${Math.round(cacheStats.hitRate * 100)}%`}
+                </div>
+                <div className="text-xs text-muted-foreground">Hit rate</div>
+              </div>
+            </div>
+            {cacheStats.models.length > 1 && (
+              <div className="text-sm text-muted-foreground">
+                {cacheStats.models.map((model) => (
+                  <div key={model.embeddingModel} className="flex justify-between">
+                    <span className="font-mono">{model.embeddingModel}</span>
+                    <span>{model.queries} queries</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {currentUserRole === "admin" && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleClearCache}
+                disabled={isClearingCache || cacheStats.queries === 0}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                {isClearingCache ? "Clearing..." : "Clear Cache"}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
         {/* AI Prompts Configuration */}
         <Card>
           <CardHeader>
@@ -197,6 +319,49 @@ function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Agent Prompts (published through MCP) */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Bot className="h-5 w-5" />
+              <span>Agent Prompts</span>
+            </CardTitle>
+            <CardDescription>
+              Share reusable prompt templates with AI agents. They are published through the MCP server alongside
+              recipes.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild size="sm" variant="outline">
+              <Link to="/settings/agent-prompts">
+                <Edit className="h-4 w-4 mr-2" />
+                Manage Agent Prompts
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* API Keys for the MCP server */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <KeyRound className="h-5 w-5" />
+              <span>API Keys</span>
+            </CardTitle>
+            <CardDescription>
+              Create and revoke the keys MCP clients use to connect, optionally restricted to projects.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild size="sm" variant="outline">
+              <Link to="/settings/api-keys">
+                <Edit className="h-4 w-4 mr-2" />
+                Manage API Keys
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center space-x-2">
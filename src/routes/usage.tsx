@@ -0,0 +1,273 @@
+import { createFileRoute, Link, redirect, useNavigate } from "@tanstack/react-router";
+import { createServerFn } from "@tanstack/react-start";
+import { zodValidator } from "@tanstack/zod-adapter";
+import { BarChart3, Search, SearchX, TrendingUp } from "lucide-react";
+import { z } from "zod";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "~/components/ui/table";
+import { authMiddlewareEnsure } from "~/lib/auth-middleware";
+import { getUserDetails } from "~/lib/auth-server-user";
+import { McpToolCalls } from "~/lib/data/mcpToolCalls";
+import { formatDateOnly, formatDateTime } from "~/lib/dateUtils";
+
+const RANGE_OPTIONS = [7, 30, 90];
+
+const usageSchema = z.object({
+  days: z.number().optional().default(30),
+});
+
+const getUsage = createServerFn({ method: "GET" })
+  .middleware([authMiddlewareEnsure])
+  .validator((data: unknown) => usageSchema.parse(data))
+  .handler(async ({ data }) => {
+    const since = new Date(Date.now() - data.days * 24 * 60 * 60 * 1000);
+    const [tools, mostFetched, zeroResultQueries, projectUsage] = await Promise.all([
+      McpToolCalls.getToolSummary(since),
+      McpToolCalls.getMostFetchedRecipes(since),
+      McpToolCalls.getZeroResultQueries(since),
+      McpToolCalls.getProjectUsageByDay(since),
+    ]);
+    return { tools, mostFetched, zeroResultQueries, projectUsage };
+  });
+
+export const Route = createFileRoute("/usage")({
+  beforeLoad: async () => {
+    const user = await getUserDetails();
+    return { user };
+  },
+  component: UsagePage,
+  validateSearch: zodValidator(usageSchema),
+  loaderDeps: ({ search: { days } }) => ({ days }),
+  loader: async ({ context, deps }) => {
+    if (!context?.user?.id) {
+      throw redirect({
+        to: "/login",
+        search: { redirect: "/usage" },
+      });
+    }
+
+    return getUsage({ data: deps });
+  },
+});
+
+function UsagePage() {
+  const navigate = useNavigate();
+  const { days } = Route.useSearch();
+  const { tools, mostFetched, zeroResultQueries, projectUsage } = Route.useLoaderData();
+
+  // Pivot the per-day rows into one row per day with a count per project
+  const projects = [...new Set(projectUsage.map((row) => row.project))].sort();
+  const usageByDay = new Map<string, Map<string, number>>();
+  for (const row of projectUsage) {
+    const day = formatDateOnly(row.day);
+    const counts = usageByDay.get(day) ?? new Map<string, number>();
+    counts.set(row.project, row.count);
+    usageByDay.set(day, counts);
+  }
+  const maxDailyCalls = Math.max(
+    1,
+    ...[...usageByDay.values()].map((counts) => [...counts.values()].reduce((sum, count) => sum + count, 0)),
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">MCP Usage</h1>
+          <p className="text-muted-foreground">How AI agents use recipes through the MCP server</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Link to="/search-analytics" search={{ days }}>
+            <Button variant="ghost" size="sm">
+              <Search className="h-4 w-4 mr-1" />
+              Search analytics
+            </Button>
+          </Link>
+          {RANGE_OPTIONS.map((option) => (
+            <Button
+              key={option}
+              variant={option === days ? "default" : "outline"}
+              size="sm"
+              onClick={() => navigate({ to: "/usage", search: { days: option } })}>
+              {option} days
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {/* Tool Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {tools.length === 0 ? (
+          <Card className="md:col-span-2">
+            <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+              <BarChart3 className="h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No MCP tool calls in the last {days} days</p>
+            </CardContent>
+          </Card>
+        ) : (
+          tools.map((tool) => (
+            <Card key={tool.tool}>
+              <CardHeader>
+                <CardTitle className="font-mono">{tool.tool}</CardTitle>
+                <CardDescription>Last {days} days</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-3 gap-4 text-center">
+                  <div>
+                    <div className="text-2xl font-bold">{tool.calls}</div>
+                    <div className="text-xs text-muted-foreground">Calls</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold">{tool.averageLatencyMs} ms</div>
+                    <div className="text-xs text-muted-foreground">Avg. latency</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold">{tool.errors}</div>
+                    <div className="text-xs text-muted-foreground">Errors</div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Most Fetched Recipes */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <TrendingUp className="h-5 w-5" />
+              <span>Most Fetched Recipes</span>
+            </CardTitle>
+            <CardDescription>Recipes retrieved with get_recipe</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {mostFetched.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No recipes fetched yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Recipe</TableHead>
+                    <TableHead className="text-right">Fetches</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {mostFetched.map((recipe) => (
+                    <TableRow key={recipe.shortId}>
+                      <TableCell>
+                        {recipe.recipeId ? (
+                          <Link
+                            to="/recipes/$recipeId"
+                            params={{ recipeId: recipe.recipeId }}
+                            className="font-medium hover:underline">
+                            {recipe.title}
+                          </Link>
+                        ) : (
+                          <span className="text-muted-foreground">Deleted recipe</span>
+                        )}
+                        <div className="text-xs font-mono text-muted-foreground">{recipe.shortId}</div>
+                      </TableCell>
+                      <TableCell className="text-right">{recipe.count}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Zero Result Queries */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <SearchX className="h-5 w-5" />
+              <span>Zero-Result Queries</span>
+            </CardTitle>
+            <CardDescription>search_recipes queries that found nothing, candidates for new recipes</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {zeroResultQueries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Every search found at least one recipe</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Query</TableHead>
+                    <TableHead className="text-right">Searches</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {zeroResultQueries.map((row) => (
+                    <TableRow key={row.query}>
+                      <TableCell>
+                        <div className="font-medium">"{row.query}"</div>
+                        <div className="text-xs text-muted-foreground">Last: {formatDateTime(row.lastSearchedAt)}</div>
+                      </TableCell>
+                      <TableCell className="text-right">{row.count}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Per-Project Usage */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Usage per Project</CardTitle>
+          <CardDescription>Tool calls per day by the project filter that was applied</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {usageByDay.size === 0 ? (
+            <p className="text-sm text-muted-foreground">No usage yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Day</TableHead>
+                  {projects.map((project) => (
+                    <TableHead key={project} className="text-right">
+                      {project || "All projects"}
+                    </TableHead>
+                  ))}
+                  <TableHead className="w-1/3">Volume</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...usageByDay.entries()].map(([day, counts]) => {
+                  const total = [...counts.values()].reduce((sum, count) => sum + count, 0);
+
+                  return (
+                    <TableRow key={day}>
+                      <TableCell>{day}</TableCell>
+                      {projects.map((project) => (
+                        <TableCell key={project} className="text-right">
+                          {counts.get(project) ?? 0}
+                        </TableCell>
+                      ))}
+                      <TableCell>
+                        <div className="flex items-center space-x-2">
+                          <div
+                            className="h-2 rounded bg-primary"
+                            style={{ width: `${(total / maxDailyCalls) * 100}%` }}
+                          />
+                          <span className="text-xs text-muted-foreground">{total}</span>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}